@@ -3,11 +3,13 @@ import { SafeAreaProvider, useSafeAreaInsets } from 'react-native-safe-area-cont
 import { View, TouchableOpacity, StyleSheet, Text } from 'react-native';
 import { NavigationContainer } from '@react-navigation/native';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
+import { createStackNavigator } from '@react-navigation/stack';
 import { Ionicons } from '@expo/vector-icons';
 import { StatusBar } from 'expo-status-bar';
 
 import HomeScreen from './screens/home';
 import PerformanceScreen from './screens/perfomance';
+import BenchmarksScreen from './screens/benchmarks';
 import SensorsScreen from './screens/sensors';
 import StorageBatteryScreen from './screens/storagebattery';
 import { DeviceProvider } from './utils/deviceInfo';
@@ -16,6 +18,7 @@ import { useMoments } from './utils/useMoments';
 
 const IconsComponent = Ionicons as any;
 const Tab = createBottomTabNavigator();
+const PerformanceStack = createStackNavigator();
 
 /* ----------------------------- */
 /* Custom Bottom Tab Bar */
@@ -107,6 +110,16 @@ const SimpleTabBar = ({ state, navigation }: any) => {
   );
 };
 
+/* ----------------------------- */
+/* Performance tab: overview + benchmarks */
+/* ----------------------------- */
+const PerformanceNavigator = () => (
+  <PerformanceStack.Navigator screenOptions={{ headerShown: false }}>
+    <PerformanceStack.Screen name="PerformanceOverview" component={PerformanceScreen} />
+    <PerformanceStack.Screen name="Benchmarks" component={BenchmarksScreen} />
+  </PerformanceStack.Navigator>
+);
+
 /* ----------------------------- */
 /* App Root */
 /* ----------------------------- */
@@ -126,7 +139,7 @@ export default function App() {
             tabBar={(props) => <SimpleTabBar {...props} />}
           >
             <Tab.Screen name="Home" component={HomeScreen} />
-            <Tab.Screen name="Performance" component={PerformanceScreen} />
+            <Tab.Screen name="Performance" component={PerformanceNavigator} />
             <Tab.Screen name="Sensors" component={SensorsScreen} />
             <Tab.Screen
               name="Storage & Battery"
@@ -0,0 +1,26 @@
+package com.leomuguchia.Phonefit
+
+import android.os.Build
+
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+
+/**
+ * Exposes the Build fields expo-device doesn't, read by utils/buildInfo.tsx.
+ */
+class BuildInfoModule(reactContext: ReactApplicationContext) : ReactContextBaseJavaModule(reactContext) {
+
+  override fun getName(): String = "PhonefitBuildInfo"
+
+  override fun getConstants(): Map<String, Any> {
+    val constants = mutableMapOf<String, Any>(
+      "HARDWARE" to Build.HARDWARE,
+      "BOARD" to Build.BOARD,
+    )
+    if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.S) {
+      constants["SOC_MANUFACTURER"] = Build.SOC_MANUFACTURER
+      constants["SOC_MODEL"] = Build.SOC_MODEL
+    }
+    return constants
+  }
+}
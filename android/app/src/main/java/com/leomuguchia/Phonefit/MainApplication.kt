@@ -25,6 +25,7 @@ class MainApplication : Application(), ReactApplication {
             PackageList(this).packages.apply {
               // Packages that cannot be autolinked yet can be added manually here, for example:
               // add(MyReactNativePackage())
+              add(BuildInfoPackage())
             }
 
           override fun getJSMainModuleName(): String = ".expo/.virtual-metro-entry"
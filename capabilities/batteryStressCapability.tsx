@@ -1,22 +1,38 @@
-import { DeviceInfo, RuntimeSignals, CapabilityResult } from './types';
-import { calculatePerformanceCapability } from './performanceCapability';
+import { DeviceInfo, RuntimeSignals, CapabilityResult, BatteryCapacitySource } from './types';
+import { DEFAULT_BATTERY_CAPACITY_MAH } from '../utils/batteryCapacity';
+import { applyInputConfidence, CapabilityInput, describeGuessedInputs, deviceInput, runtimeInput } from './provenance';
 
 export interface BatteryStressCapability extends CapabilityResult {
   stressLevel: 'Low' | 'Moderate' | 'High' | 'Critical';
   estimatedHeavyUsageMinutes: number;
+  capacityMah: number;
+  capacitySource: BatteryCapacitySource;
   riskFactors: string[];
 }
 
+// Heavy use (gaming, camera) vs. an average screen-on session
+const HEAVY_USE_FACTOR = 2;
+
+// Less certain capacity, less certain runtime
+const CAPACITY_CONFIDENCE_PENALTY: Record<BatteryCapacitySource, number> = {
+  user: 0,
+  table: 0,
+  measured: 5,
+  default: 10,
+};
+
 /**
  * Battery Stress Capability
  * How well the battery can handle sustained heavy usage
- * Based on current battery level and device characteristics
+ * Based on current battery level, battery capacity and device characteristics,
+ * blended with measured drain when battery samples are available
  */
 export function calculateBatteryStressCapability(
   deviceInfo: DeviceInfo,
-  runtime: RuntimeSignals
+  runtime: RuntimeSignals,
+  upstream: { performance: CapabilityResult }
 ): BatteryStressCapability {
-  const performance = calculatePerformanceCapability(deviceInfo);
+  const { performance } = upstream;
   const riskFactors: string[] = [];
   let stressMultiplier = 1.0;
 
@@ -39,6 +55,19 @@ export function calculateBatteryStressCapability(
     riskFactors.push('Battery critically low');
   }
 
+  // 1b. BATTERY CAPACITY (buckets above assume a 4000mAh battery)
+  const capacity = runtime.batteryCapacity ?? {
+    mAh: DEFAULT_BATTERY_CAPACITY_MAH,
+    source: 'default' as const,
+  };
+  const capacityRatio = Math.max(0.5, Math.min(1.5, capacity.mAh / DEFAULT_BATTERY_CAPACITY_MAH));
+  baseMinutes *= capacityRatio;
+  if (capacity.source === 'default') {
+    riskFactors.push(`Battery capacity unknown, assuming ${capacity.mAh} mAh`);
+  } else if (capacity.mAh < 3000) {
+    riskFactors.push(`Small battery (${capacity.mAh} mAh)`);
+  }
+
   // 2. PERFORMANCE TIER IMPACT (higher performance = more power draw)
   if (performance.tier >= 4) {
     stressMultiplier *= 1.3; // 30% faster drain
@@ -55,8 +84,17 @@ export function calculateBatteryStressCapability(
 
   // 4. REFRESH RATE IMPACT (higher refresh = more power)
   if (deviceInfo.refreshRate && deviceInfo.refreshRate >= 90) {
-    stressMultiplier *= 1.15; // 15% faster drain
-    riskFactors.push('High refresh rate increases power draw');
+    if (deviceInfo.variableRefreshRate) {
+      stressMultiplier *= 1.05; // Adaptive displays drop the rate when idle
+      riskFactors.push('High refresh rate increases power draw (adaptive display limits it)');
+    } else {
+      stressMultiplier *= 1.15; // 15% faster drain
+      riskFactors.push(
+        deviceInfo.provenance?.refreshRate === 'measured'
+          ? `Measured ${deviceInfo.refreshRate}Hz display increases power draw`
+          : 'High refresh rate increases power draw'
+      );
+    }
   }
 
   // 5. BRIGHTNESS ESTIMATE (proxy via pixel density)
@@ -66,6 +104,31 @@ export function calculateBatteryStressCapability(
 
   // Calculate final estimated minutes
   let estimatedMinutes = Math.round(baseMinutes / stressMultiplier);
+  // Capacity has its own penalty by source; it's listed so a default gets named
+  const inputs: CapabilityInput[] = [
+    runtimeInput(runtime, 'batteryLevel', 'battery level'),
+    runtimeInput(runtime, 'batteryCapacity', 'battery capacity', 0),
+  ];
+  if (deviceInfo.refreshRate && deviceInfo.refreshRate >= 90) {
+    inputs.push(deviceInput(deviceInfo, 'refreshRate', 'refresh rate', 0.3));
+  }
+  // Battery estimates have moderate confidence
+  let confidence = applyInputConfidence(85 - CAPACITY_CONFIDENCE_PENALTY[capacity.source], inputs);
+
+  // 6. MEASURED DRAIN (replaces the heuristics as samples accumulate)
+  const measured = runtime.measuredDrain;
+  if (measured && measured.screenOnPercentPerHour > 0) {
+    // Heavy use drains faster than the average screen-on session
+    const heavyPercentPerHour = measured.screenOnPercentPerHour * HEAVY_USE_FACTOR;
+    const measuredMinutes = Math.round((batteryLevel * 100 / heavyPercentPerHour) * 60);
+    const weight = measured.confidence / 100;
+
+    estimatedMinutes = Math.round(measuredMinutes * weight + estimatedMinutes * (1 - weight));
+    confidence = Math.max(confidence, measured.confidence);
+    riskFactors.push(
+      `Measured drain ${measured.screenOnPercentPerHour.toFixed(1)}%/hour with screen on`
+    );
+  }
   
   // Ensure reasonable minimum
   estimatedMinutes = Math.max(10, estimatedMinutes);
@@ -73,7 +136,6 @@ export function calculateBatteryStressCapability(
   // Determine stress level
   let stressLevel: BatteryStressCapability['stressLevel'];
   let tier: number;
-  let confidence = 85; // Battery estimates have moderate confidence
 
   if (estimatedMinutes <= 20) {
     stressLevel = 'Critical';
@@ -98,9 +160,14 @@ export function calculateBatteryStressCapability(
     confidence,
     stressLevel,
     estimatedHeavyUsageMinutes: estimatedMinutes,
+    capacityMah: capacity.mAh,
+    capacitySource: capacity.source,
     riskFactors,
-    why: riskFactors.length > 0 ? 
-      `Battery stress factors: ${riskFactors.join(', ')}` :
-      'Battery in good condition for heavy use',
+    why: [
+      riskFactors.length > 0 ?
+        `Battery stress factors: ${riskFactors.join(', ')}` :
+        'Battery in good condition for heavy use',
+      describeGuessedInputs(inputs),
+    ].filter(Boolean).join('. '),
   };
 }
\ No newline at end of file
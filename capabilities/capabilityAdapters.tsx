@@ -0,0 +1,191 @@
+import type {
+  BatteryProfile,
+  DeviceCapabilities,
+  DeviceInfo,
+  RuntimeSignals,
+  SensorEntry,
+  StorageProfile,
+} from '../types';
+import { buildCapabilities, EngineCapabilities } from './capabilityEngine';
+import { BatteryStressCapability } from './batteryStressCapability';
+import { ScoringEngine } from '../utils/scoringEngine';
+import { TIERS } from '../constants/tiers';
+import { formatUnitCount, planStorage } from '../utils/storagePlanner';
+
+/* =======================
+   MODEL ADAPTERS
+======================= */
+
+/**
+ * Wrap engine output into the canonical capabilities model
+ */
+export function toDeviceCapabilities(
+  engine: EngineCapabilities,
+  runtime: RuntimeSignals,
+  sensors: SensorEntry[]
+): DeviceCapabilities {
+  return {
+    ...engine,
+    battery: buildBatteryProfile(runtime),
+    storage: buildStorageProfile(runtime),
+    sensors,
+  };
+}
+
+/**
+ * Build the canonical model, falling back to the legacy ScoringEngine
+ * when the capability engine throws. Both paths produce the same shape.
+ */
+export function resolveDeviceCapabilities(
+  info: DeviceInfo,
+  runtime: RuntimeSignals,
+  sensors: SensorEntry[]
+): DeviceCapabilities {
+  try {
+    return toDeviceCapabilities(buildCapabilities(info, runtime), runtime, sensors);
+  } catch (error) {
+    console.warn('New capability engine failed, using fallback:', error);
+    return toDeviceCapabilities(
+      ScoringEngine.buildFallbackCapabilities(info, runtime),
+      runtime,
+      sensors
+    );
+  }
+}
+
+function buildBatteryProfile(runtime: RuntimeSignals): BatteryProfile {
+  const health = runtime.batteryHealth;
+  const { capacityMah, capacitySource, ...estimatedUsage } =
+    ScoringEngine.estimateBatteryUsage(runtime.batteryCapacity);
+
+  return {
+    estimatedUsage,
+    health: health?.grade ?? 'Unknown',
+    healthConfidence: health?.confidence ?? 0,
+    healthExplanation: health?.explanation ?? 'Battery health has not been estimated yet.',
+    capacity: capacityMah,
+    capacitySource,
+    level: runtime.batteryLevel,
+    batteryState: runtime.batteryState,
+  };
+}
+
+function buildStorageProfile(runtime: RuntimeSignals): StorageProfile {
+  return {
+    total: runtime.totalStorage,
+    free: runtime.freeStorage,
+    used: runtime.usedStorage,
+    plan: planStorage(runtime.freeStorage, runtime.totalStorage),
+    percentageFree: runtime.totalStorage > 0
+      ? (runtime.freeStorage / runtime.totalStorage) * 100
+      : 0,
+    capacity: runtime.storageCapacity,
+  };
+}
+
+/* =======================
+   VIEW ADAPTERS
+======================= */
+
+export interface CapabilitySummary {
+  tier?: number;
+  description: string;
+  confidence: number;
+}
+
+export interface HomeView {
+  performance: CapabilitySummary;
+  gaming: CapabilitySummary;
+  battery: CapabilitySummary;
+  storage: CapabilitySummary;
+  sensors: CapabilitySummary;
+  dailyUsage: CapabilitySummary;
+}
+
+export function toHomeView(caps: DeviceCapabilities): HomeView {
+  const availableSensors = caps.sensors.filter(s => s.available).length;
+  const photoCount = caps.storage.plan.items.find(item => item.profile.id === 'photo-jpeg')?.count ?? 0;
+
+  return {
+    performance: {
+      tier: caps.performance.tier,
+      description:
+        TIERS[caps.performance.tier as keyof typeof TIERS]?.sentence || 'Checking performance...',
+      confidence: caps.performance.confidence,
+    },
+    gaming: {
+      tier: caps.gaming.tier,
+      description: caps.gaming.description,
+      confidence: caps.gaming.confidence,
+    },
+    battery: {
+      description: caps.battery.estimatedUsage.normal
+        ? `Estimated: ${caps.battery.estimatedUsage.normal}`
+        : 'Estimating battery usage...',
+      confidence: caps.batteryStress.confidence,
+    },
+    storage: {
+      description: photoCount > 0 ? `Room for ${formatUnitCount('photo', photoCount)}` : 'Storage details unavailable',
+      confidence: caps.storage.total <= 0 ? 0 : caps.storage.capacity?.source === 'estimate' ? 30 : 90,
+    },
+    sensors: {
+      description: `${availableSensors} sensors available`,
+      confidence: 95,
+    },
+    dailyUsage: {
+      tier: caps.dailyUsage.tier,
+      description: `${caps.dailyUsage.pattern} user - ${caps.dailyUsage.screenTime}`,
+      confidence: caps.dailyUsage.confidence,
+    },
+  };
+}
+
+export interface StorageBatteryView {
+  storage: StorageProfile & {
+    hasData: boolean;
+    usedPercentage: number;
+    freePercentage: number;
+  };
+  battery: BatteryProfile & {
+    stress: BatteryStressCapability;
+  };
+}
+
+export function toStorageBatteryView(caps: DeviceCapabilities): StorageBatteryView {
+  const hasData = caps.storage.total > 0;
+
+  return {
+    storage: {
+      ...caps.storage,
+      hasData,
+      usedPercentage: hasData ? (caps.storage.used / caps.storage.total) * 100 : 0,
+      freePercentage: hasData ? (caps.storage.free / caps.storage.total) * 100 : 0,
+    },
+    battery: {
+      ...caps.battery,
+      stress: caps.batteryStress,
+    },
+  };
+}
+
+export interface SensorsView {
+  available: SensorEntry[];
+  unavailable: SensorEntry[];
+  total: number;
+  hasAccelerometer: boolean;
+  stabilizationNote: string | null;
+}
+
+export function toSensorsView(caps: DeviceCapabilities): SensorsView {
+  const available = caps.sensors.filter(s => s.available);
+  const unavailable = caps.sensors.filter(s => !s.available);
+  const gyroLimitation = caps.videoRecording.limitations.find(l => l.includes('gyroscope'));
+
+  return {
+    available,
+    unavailable,
+    total: caps.sensors.length,
+    hasAccelerometer: available.some(s => s.name.toLowerCase().includes('accelerometer')),
+    stabilizationNote: gyroLimitation ?? null,
+  };
+}
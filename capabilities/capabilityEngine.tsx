@@ -1,16 +1,20 @@
 import { DeviceInfo, RuntimeSignals } from './types';
 import { calculatePerformanceCapability } from './performanceCapability';
-import { calculateGamingCapability, GamingCapability } from './gamingCapability';
-import { calculateVideoRecordingCapability, VideoRecordingCapability } from './videoRecordingCapability';
-import { calculateBatteryStressCapability, BatteryStressCapability } from './batteryStressCapability';
-import { calculateDailyUsageCapability, DailyUsageCapability } from './dailyUsageCapability';
-
-export interface DeviceCapabilities {
-  performance: ReturnType<typeof calculatePerformanceCapability>;
-  gaming: GamingCapability;
-  videoRecording: VideoRecordingCapability;
-  batteryStress: BatteryStressCapability;
-  dailyUsage: DailyUsageCapability;
+import { calculateGamingCapability } from './gamingCapability';
+import { calculateVideoRecordingCapability } from './videoRecordingCapability';
+import { calculateBatteryStressCapability } from './batteryStressCapability';
+import { calculateDailyUsageCapability } from './dailyUsageCapability';
+import {
+  CapabilityId,
+  CapabilityResultMap,
+  getCapabilityDefinition,
+  getRegistryVersion,
+  isCapabilityRegistered,
+  registerCapability,
+  resolveCapabilityOrder,
+} from './capabilityRegistry';
+
+export interface EngineCapabilities extends CapabilityResultMap {
   featureUnlocks: FeatureUnlocks;
   lastUpdated: Date;
 }
@@ -38,51 +42,130 @@ function hasWhy(obj: any): obj is { why: string; [key: string]: any } {
   return obj && typeof obj === 'object' && 'why' in obj;
 }
 
+/**
+ * Built-in capabilities
+ * Additional capabilities can be registered from anywhere via registerCapability
+ */
+registerCapability({
+  id: 'performance',
+  dependencies: [],
+  calculate: calculatePerformanceCapability,
+  display: {
+    title: 'Overall Performance',
+    icon: 'speedometer-outline',
+    fallbackExplanation: (result) => `Performance tier ${result.tier} based on available hardware metrics`,
+  },
+});
+
+registerCapability({
+  id: 'gaming',
+  dependencies: ['performance'],
+  calculate: calculateGamingCapability,
+  display: {
+    title: 'Gaming Capability',
+    icon: 'game-controller-outline',
+    fallbackExplanation: () => 'Gaming capability determined by performance, memory, and current battery',
+  },
+});
+
+registerCapability({
+  id: 'videoRecording',
+  dependencies: ['performance'],
+  calculate: calculateVideoRecordingCapability,
+  display: {
+    title: '4K Video Recording',
+    icon: 'videocam-outline',
+    fallbackExplanation: () => 'Video recording assessment based on storage, battery, and stabilization',
+  },
+});
+
+registerCapability({
+  id: 'batteryStress',
+  dependencies: ['performance'],
+  calculate: calculateBatteryStressCapability,
+  display: {
+    title: 'Battery Endurance',
+    icon: 'battery-charging-outline',
+    fallbackExplanation: () => 'Battery stress calculated from current level and device characteristics',
+  },
+});
+
+registerCapability({
+  id: 'dailyUsage',
+  dependencies: ['performance', 'batteryStress'],
+  calculate: calculateDailyUsageCapability,
+  display: {
+    title: 'Daily Usage Pattern',
+    icon: 'stats-chart-outline',
+    fallbackExplanation: () => 'Usage pattern derived from performance and battery capabilities',
+  },
+});
+
+/**
+ * Memo cache
+ * Results are keyed on the full DeviceInfo + RuntimeSignals input, so screens
+ * that rebuild on every render reuse the previous result for identical inputs.
+ * lastUpdated is stamped per call, never served from the cache.
+ */
+const MEMO_LIMIT = 8;
+const memo = new Map<string, Omit<EngineCapabilities, 'lastUpdated'>>();
+
+function getMemoKey(deviceInfo: DeviceInfo, runtime: RuntimeSignals): string {
+  return `${getRegistryVersion()}|${JSON.stringify(deviceInfo)}|${JSON.stringify(runtime)}`;
+}
+
+export function clearCapabilityCache(): void {
+  memo.clear();
+}
+
 /**
  * Main Capability Engine
  * Aggregates all capability calculations into a single interface
- * Pure functions only - no side effects, no React dependencies
+ * Each capability is calculated once per input; downstream calculators
+ * receive the results of their declared dependencies
  */
 export function buildCapabilities(
   deviceInfo: DeviceInfo,
   runtime: RuntimeSignals
-): DeviceCapabilities {
-  // Calculate all capabilities
-  const performance = calculatePerformanceCapability(deviceInfo);
-  const gaming = calculateGamingCapability(deviceInfo, runtime);
-  const videoRecording = calculateVideoRecordingCapability(deviceInfo, runtime);
-  const batteryStress = calculateBatteryStressCapability(deviceInfo, runtime);
-  const dailyUsage = calculateDailyUsageCapability(deviceInfo, runtime);
+): EngineCapabilities {
+  const key = getMemoKey(deviceInfo, runtime);
+  const cached = memo.get(key);
+  if (cached) {
+    // Refresh recency so the most used inputs stay cached
+    memo.delete(key);
+    memo.set(key, cached);
+    return { ...cached, lastUpdated: new Date() };
+  }
+
+  // Calculate every registered capability, dependencies first
+  const results: Partial<Record<CapabilityId, unknown>> = {};
+  for (const definition of resolveCapabilityOrder()) {
+    const upstream = results as CapabilityResultMap;
+    results[definition.id] = definition.calculate(deviceInfo, runtime, upstream);
+  }
+  const capabilities = results as CapabilityResultMap;
 
   // Determine feature unlocks based on capabilities
-  const featureUnlocks = calculateFeatureUnlocks({
-    performance,
-    gaming,
-    videoRecording,
-    batteryStress,
-  });
+  const featureUnlocks = calculateFeatureUnlocks(capabilities);
+
+  const built = { ...capabilities, featureUnlocks };
+
+  memo.set(key, built);
+  if (memo.size > MEMO_LIMIT) {
+    const oldestKey = memo.keys().next().value;
+    if (oldestKey !== undefined) memo.delete(oldestKey);
+  }
 
-  return {
-    performance,
-    gaming,
-    videoRecording,
-    batteryStress,
-    dailyUsage,
-    featureUnlocks,
-    lastUpdated: new Date(),
-  };
+  return { ...built, lastUpdated: new Date() };
 }
 
 /**
  * Feature Unlock System
  * Determines which features are available based on capability tiers
  */
-function calculateFeatureUnlocks(capabilities: {
-  performance: ReturnType<typeof calculatePerformanceCapability>;
-  gaming: GamingCapability;
-  videoRecording: VideoRecordingCapability;
-  batteryStress: BatteryStressCapability;
-}): FeatureUnlocks {
+export function calculateFeatureUnlocks(
+  capabilities: Pick<CapabilityResultMap, 'performance' | 'gaming' | 'videoRecording' | 'batteryStress'>
+): FeatureUnlocks {
   const unlocked: FeatureUnlocks['unlocked'] = [];
   const blocked: FeatureUnlocks['blocked'] = [];
 
@@ -145,6 +228,21 @@ function calculateFeatureUnlocks(capabilities: {
     });
   }
 
+  // Smooth high-frame-rate modes, judged from the per-mode assessment
+  const highFrameRateModes = [
+    { feature: '4K at 60fps Recording', resolution: '4K', tierRequired: 4 },
+    { feature: '1080p at 60fps Recording', resolution: '1080p', tierRequired: 2 },
+  ] as const;
+  highFrameRateModes.forEach(({ feature, resolution, tierRequired }) => {
+    const mode = capabilities.videoRecording.modes.find(m => m.resolution === resolution && m.fps === 60);
+    if (!mode) return;
+    if (mode.supported) {
+      unlocked.push({ feature, tierRequired, confidence: capabilities.videoRecording.confidence });
+    } else {
+      blocked.push({ feature, reason: mode.reason, tierRequired });
+    }
+  });
+
   // 4. Battery-based unlocks
   if (capabilities.batteryStress.tier >= 3) {
     unlocked.push({
@@ -166,39 +264,29 @@ function calculateFeatureUnlocks(capabilities: {
  * Confidence Bar Generator
  * Converts confidence scores to visual bar representation
  */
-export function generateConfidenceBars(capabilities: DeviceCapabilities) {
-  return {
-    performance: {
-      score: capabilities.performance.score,
-      confidence: capabilities.performance.confidence,
-      bars: Math.ceil(capabilities.performance.confidence / 20), // 1-5 bars
-      color: getConfidenceColor(capabilities.performance.confidence),
-    },
-    gaming: {
-      score: capabilities.gaming.score,
-      confidence: capabilities.gaming.confidence,
-      bars: Math.ceil(capabilities.gaming.confidence / 20),
-      color: getConfidenceColor(capabilities.gaming.confidence),
-    },
-    videoRecording: {
-      score: capabilities.videoRecording.score,
-      confidence: capabilities.videoRecording.confidence,
-      bars: Math.ceil(capabilities.videoRecording.confidence / 20),
-      color: getConfidenceColor(capabilities.videoRecording.confidence),
-    },
-    batteryStress: {
-      score: capabilities.batteryStress.score,
-      confidence: capabilities.batteryStress.confidence,
-      bars: Math.ceil(capabilities.batteryStress.confidence / 20),
-      color: getConfidenceColor(capabilities.batteryStress.confidence),
-    },
-    dailyUsage: {
-      score: capabilities.dailyUsage.score,
-      confidence: capabilities.dailyUsage.confidence,
-      bars: Math.ceil(capabilities.dailyUsage.confidence / 20),
-      color: getConfidenceColor(capabilities.dailyUsage.confidence),
-    },
-  };
+export function generateConfidenceBars(capabilities: EngineCapabilities) {
+  const bars = {} as Record<CapabilityId, ConfidenceBars>;
+
+  resolveCapabilityOrder().forEach(({ id }) => {
+    const capability = capabilities[id];
+    if (!capability) return;
+
+    bars[id] = {
+      score: capability.score,
+      confidence: capability.confidence,
+      bars: Math.ceil(capability.confidence / 20), // 1-5 bars
+      color: getConfidenceColor(capability.confidence),
+    };
+  });
+
+  return bars;
+}
+
+export interface ConfidenceBars {
+  score: number;
+  confidence: number;
+  bars: number;
+  color: string;
 }
 
 /**
@@ -214,99 +302,64 @@ function getConfidenceColor(confidence: number): string {
  * Helper: Get "Why?" explanation for any capability
  */
 export function getCapabilityExplanation(
-  capabilityName: keyof DeviceCapabilities,
-  capabilities: DeviceCapabilities
+  capabilityName: keyof EngineCapabilities,
+  capabilities: EngineCapabilities
 ): string {
   const capability = capabilities[capabilityName];
   
   // Use type guard to safely access properties
-  if (hasWhy(capability)) {
+  if (hasWhy(capability) && capability.why) {
     return capability.why;
   }
 
-  // Fallback explanations based on capability type
-  switch (capabilityName) {
-    case 'performance':
-      const perf = capabilities.performance;
-      return `Performance tier ${perf.tier} based on available hardware metrics`;
-    case 'gaming':
-      const gaming = capabilities.gaming;
-      return `Gaming capability determined by performance, memory, and current battery`;
-    case 'videoRecording':
-      const video = capabilities.videoRecording;
-      return `Video recording assessment based on storage, battery, and stabilization`;
-    case 'batteryStress':
-      const battery = capabilities.batteryStress;
-      return `Battery stress calculated from current level and device characteristics`;
-    case 'dailyUsage':
-      const daily = capabilities.dailyUsage;
-      return `Usage pattern derived from performance and battery capabilities`;
-    case 'featureUnlocks':
-      return `${capabilities.featureUnlocks.unlocked.length} features available, ${capabilities.featureUnlocks.blocked.length} limited`;
-    case 'lastUpdated':
-      return `Last updated: ${capabilities.lastUpdated.toLocaleTimeString()}`;
-    default:
-      return 'Capability assessment based on available device information';
+  if (capabilityName === 'featureUnlocks') {
+    return `${capabilities.featureUnlocks.unlocked.length} features available, ${capabilities.featureUnlocks.blocked.length} limited`;
+  }
+  if (capabilityName === 'lastUpdated') {
+    return `Last updated: ${capabilities.lastUpdated.toLocaleTimeString()}`;
+  }
+
+  // Fallback explanation from the capability's display metadata
+  const definition = getCapabilityDefinition(capabilityName);
+  if (definition && capability) {
+    return definition.display.fallbackExplanation(capability as never);
   }
+
+  return 'Capability assessment based on available device information';
 }
 
 /**
  * Get tier from any capability that has one
  */
 export function getCapabilityTier(
-  capabilityName: keyof DeviceCapabilities,
-  capabilities: DeviceCapabilities
+  capabilityName: keyof EngineCapabilities,
+  capabilities: EngineCapabilities
 ): number | null {
   const capability = capabilities[capabilityName];
-  
-  // Check specific capabilities first
-  switch (capabilityName) {
-    case 'performance':
-      return capabilities.performance.tier;
-    case 'gaming':
-      return capabilities.gaming.tier;
-    case 'videoRecording':
-      return capabilities.videoRecording.tier;
-    case 'batteryStress':
-      return capabilities.batteryStress.tier;
-    case 'dailyUsage':
-      return capabilities.dailyUsage.tier;
-    default:
-      // Generic check for other objects that might have tier
-      if (hasTier(capability)) {
-        return capability.tier;
-      }
-      return null;
+
+  // Registered capabilities always carry a tier; anything else is checked generically
+  if (isCapabilityRegistered(capabilityName)) {
+    return capabilities[capabilityName]?.tier ?? null;
+  }
+  if (hasTier(capability)) {
+    return capability.tier;
   }
+  return null;
 }
 
 /**
  * Get score from any capability that has one
  */
 export function getCapabilityScore(
-  capabilityName: keyof DeviceCapabilities,
-  capabilities: DeviceCapabilities
+  capabilityName: keyof EngineCapabilities,
+  capabilities: EngineCapabilities
 ): number | null {
   const capability = capabilities[capabilityName];
-  
-  // Check specific capabilities first
-  switch (capabilityName) {
-    case 'performance':
-      return capabilities.performance.score;
-    case 'gaming':
-      return capabilities.gaming.score;
-    case 'videoRecording':
-      return capabilities.videoRecording.score;
-    case 'batteryStress':
-      return capabilities.batteryStress.score;
-    case 'dailyUsage':
-      return capabilities.dailyUsage.score;
-    default:
-      // Generic check for score property
-      if (capability && typeof capability === 'object' && 'score' in capability) {
-        const scoreObj = capability as { score: number };
-        return scoreObj.score;
-      }
-      return null;
+
+  // Generic check for score property
+  if (capability && typeof capability === 'object' && 'score' in capability) {
+    const scoreObj = capability as { score: number };
+    return scoreObj.score;
   }
-}
\ No newline at end of file
+  return null;
+}
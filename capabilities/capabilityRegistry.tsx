@@ -0,0 +1,126 @@
+import { DeviceInfo, RuntimeSignals, CapabilityResult } from './types';
+import { GamingCapability } from './gamingCapability';
+import { VideoRecordingCapability } from './videoRecordingCapability';
+import { BatteryStressCapability } from './batteryStressCapability';
+import { DailyUsageCapability } from './dailyUsageCapability';
+
+/**
+ * Result type of every registered capability, keyed by capability id.
+ * New capabilities add themselves here via declaration merging:
+ *
+ *   declare module './capabilityRegistry' {
+ *     interface CapabilityResultMap { myCapability: MyCapability }
+ *   }
+ */
+export interface CapabilityResultMap {
+  performance: CapabilityResult;
+  gaming: GamingCapability;
+  videoRecording: VideoRecordingCapability;
+  batteryStress: BatteryStressCapability;
+  dailyUsage: DailyUsageCapability;
+}
+
+export type CapabilityId = keyof CapabilityResultMap;
+
+export interface CapabilityDisplay<Id extends CapabilityId = CapabilityId> {
+  title: string;
+  icon: string;                  // Ionicons name
+  fallbackExplanation: (result: CapabilityResultMap[Id]) => string;
+}
+
+/**
+ * Results of a capability's declared dependencies, handed to its calculator by the engine
+ */
+export type UpstreamResults<Deps extends CapabilityId = CapabilityId> = Pick<CapabilityResultMap, Deps>;
+
+export interface CapabilityDefinition<
+  Id extends CapabilityId = CapabilityId,
+  Deps extends CapabilityId = CapabilityId
+> {
+  id: Id;
+  dependencies: Deps[];          // Capabilities that must be resolved first
+  calculate: (
+    deviceInfo: DeviceInfo,
+    runtime: RuntimeSignals,
+    upstream: UpstreamResults<Deps>
+  ) => CapabilityResultMap[Id];
+  display: CapabilityDisplay<Id>;
+}
+
+type AnyCapabilityDefinition = { [Id in CapabilityId]: CapabilityDefinition<Id> }[CapabilityId];
+
+const definitions = new Map<CapabilityId, AnyCapabilityDefinition>();
+let resolvedOrder: AnyCapabilityDefinition[] | null = null;
+let registryVersion = 0;
+
+/**
+ * Register (or replace) a capability calculator
+ */
+export function registerCapability<Id extends CapabilityId, Deps extends CapabilityId = never>(
+  definition: CapabilityDefinition<Id, Deps>
+): void {
+  definitions.set(definition.id, definition as unknown as AnyCapabilityDefinition);
+  resolvedOrder = null;
+  registryVersion++;
+}
+
+/**
+ * Remove a capability from the registry
+ */
+export function unregisterCapability(id: CapabilityId): void {
+  if (definitions.delete(id)) {
+    resolvedOrder = null;
+    registryVersion++;
+  }
+}
+
+/**
+ * Incremented on every registry change so cached engine results can be invalidated
+ */
+export function getRegistryVersion(): number {
+  return registryVersion;
+}
+
+export function isCapabilityRegistered(id: string): id is CapabilityId {
+  return definitions.has(id as CapabilityId);
+}
+
+export function getCapabilityDefinition<Id extends CapabilityId>(
+  id: Id
+): CapabilityDefinition<Id> | undefined {
+  return definitions.get(id) as CapabilityDefinition<Id> | undefined;
+}
+
+/**
+ * All registered capabilities, dependencies first.
+ * Throws if a dependency is missing or the graph has a cycle.
+ */
+export function resolveCapabilityOrder(): AnyCapabilityDefinition[] {
+  if (resolvedOrder) return resolvedOrder;
+
+  const order: AnyCapabilityDefinition[] = [];
+  const state = new Map<CapabilityId, 'visiting' | 'done'>();
+
+  const visit = (id: CapabilityId, path: CapabilityId[]) => {
+    const current = state.get(id);
+    if (current === 'done') return;
+    if (current === 'visiting') {
+      throw new Error(`Capability dependency cycle: ${[...path, id].join(' -> ')}`);
+    }
+
+    const definition = definitions.get(id);
+    if (!definition) {
+      throw new Error(`Capability "${path[path.length - 1]}" depends on unregistered "${id}"`);
+    }
+
+    state.set(id, 'visiting');
+    definition.dependencies.forEach(dep => visit(dep, [...path, id]));
+    state.set(id, 'done');
+    order.push(definition);
+  };
+
+  definitions.forEach((_, id) => visit(id, []));
+
+  resolvedOrder = order;
+  return order;
+}
@@ -1,6 +1,5 @@
 import { DeviceInfo, RuntimeSignals, CapabilityResult } from './types';
-import { calculatePerformanceCapability } from './performanceCapability';
-import { calculateBatteryStressCapability } from './batteryStressCapability';
+import { BatteryStressCapability } from './batteryStressCapability';
 
 export interface DailyUsageCapability extends CapabilityResult {
   pattern: 'Light' | 'Moderate' | 'Power' | 'Extreme';
@@ -15,10 +14,10 @@ export interface DailyUsageCapability extends CapabilityResult {
  */
 export function calculateDailyUsageCapability(
   deviceInfo: DeviceInfo,
-  runtime: RuntimeSignals
+  runtime: RuntimeSignals,
+  upstream: { performance: CapabilityResult; batteryStress: BatteryStressCapability }
 ): DailyUsageCapability {
-  const performance = calculatePerformanceCapability(deviceInfo);
-  const batteryStress = calculateBatteryStressCapability(deviceInfo, runtime);
+  const { performance, batteryStress } = upstream;
 
   // Determine pattern based on performance and battery
   let pattern: DailyUsageCapability['pattern'];
@@ -0,0 +1,145 @@
+import { DeviceInfo, RuntimeSignals } from './types';
+import { GamingCapability } from './gamingCapability';
+import { GAME_CATALOG, GameGenre, GamePlatform, GameRequirements } from '../constants/gameCatalog';
+
+export type GameVerdictLevel = 'wontInstall' | 'playableLow' | 'good' | 'max';
+
+export type GameLimitingFactor = 'platform' | 'os' | 'storage' | 'ram' | 'performance';
+
+export type PerformanceClassSource = 'measured' | 'soc' | 'estimated';
+
+export interface GameVerdict {
+  title: string;
+  genre: GameGenre;
+  verdict: GameVerdictLevel;
+  limitingFactor?: GameLimitingFactor; // What holds it below the next verdict; missing at max
+  reason: string;
+}
+
+export interface GameCompatibility {
+  performanceClass: number;      // 1-5, the device class the verdicts were judged at
+  classSource: PerformanceClassSource;
+  verdicts: GameVerdict[];       // Catalog order
+  catalogVersion: number;
+}
+
+export const GAME_VERDICT_LABELS: Record<GameVerdictLevel, string> = {
+  wontInstall: "Won't install",
+  playableLow: 'Playable on low',
+  good: 'Runs well',
+  max: 'Max settings',
+};
+
+const GB = 1024 * 1024 * 1024;
+
+// Same cut-offs as the render benchmark's implied tier (shapes held at 60fps)
+const RENDER_CLASS_THRESHOLDS = [10, 50, 100, 200];
+
+const ANDROID_VERSION_BY_API: Record<number, string> = {
+  21: '5', 23: '6', 24: '7', 26: '8', 28: '9', 29: '10', 30: '11', 31: '12', 33: '13', 34: '14',
+};
+
+/**
+ * Game Compatibility
+ * Judges every title in the bundled catalog against this device: platform,
+ * OS version, free storage and RAM gate the install; the performance class
+ * and RAM decide between low, good and max settings. The class comes from
+ * the render benchmark when measured, else the SoC's GPU class, else the
+ * gaming tier.
+ */
+export function calculateGameCompatibility(
+  deviceInfo: DeviceInfo,
+  runtime: RuntimeSignals,
+  upstream: { gaming: GamingCapability },
+  games: GameRequirements[] = GAME_CATALOG.games
+): GameCompatibility {
+  const { performanceClass, classSource } = resolvePerformanceClass(deviceInfo, runtime, upstream.gaming);
+  const device: DeviceProfile = {
+    platform: deviceInfo.osName === 'iOS' ? 'ios' : 'android',
+    apiLevel: deviceInfo.platformApiLevel,
+    iosMajor: deviceInfo.osVersion ? parseInt(deviceInfo.osVersion, 10) || undefined : undefined,
+    ramGB: deviceInfo.totalMemory !== undefined ? deviceInfo.totalMemory / GB : undefined,
+    freeGB: runtime.freeStorage / GB,
+    performanceClass,
+  };
+
+  return {
+    performanceClass,
+    classSource,
+    verdicts: games.map(game => judgeGame(game, device)),
+    catalogVersion: GAME_CATALOG.version,
+  };
+}
+
+/* =======================
+   VERDICTS
+======================= */
+
+interface DeviceProfile {
+  platform: GamePlatform;
+  apiLevel?: number;
+  iosMajor?: number;
+  ramGB?: number;                // Unknown RAM never limits
+  freeGB: number;
+  performanceClass: number;
+}
+
+function judgeGame(game: GameRequirements, device: DeviceProfile): GameVerdict {
+  const verdict = (level: GameVerdictLevel, reason: string, limitingFactor?: GameLimitingFactor): GameVerdict => ({
+    title: game.title,
+    genre: game.genre,
+    verdict: level,
+    limitingFactor,
+    reason,
+  });
+
+  // 1. Install gates
+  if (!game.platforms.includes(device.platform)) {
+    return verdict('wontInstall', `Not available on ${device.platform === 'ios' ? 'iOS' : 'Android'}`, 'platform');
+  }
+  if (device.platform === 'android' && game.minAndroidApi && device.apiLevel && device.apiLevel < game.minAndroidApi) {
+    return verdict('wontInstall', `Needs Android ${ANDROID_VERSION_BY_API[game.minAndroidApi] ?? `API ${game.minAndroidApi}`} or newer`, 'os');
+  }
+  if (device.platform === 'ios' && game.minIOS && device.iosMajor && device.iosMajor < game.minIOS) {
+    return verdict('wontInstall', `Needs iOS ${game.minIOS} or newer`, 'os');
+  }
+  if (device.freeGB < game.installGB) {
+    return verdict('wontInstall', `Needs ${game.installGB} GB free, ${device.freeGB.toFixed(1)} GB available`, 'storage');
+  }
+  if (device.ramGB !== undefined && device.ramGB < game.minRamGB - 0.5) {
+    return verdict('wontInstall', `Needs at least ${game.minRamGB} GB RAM`, 'ram');
+  }
+  if (device.performanceClass < game.minClass) {
+    return verdict('wontInstall', 'Processor is below the minimum the game supports', 'performance');
+  }
+
+  // 2. Settings level - RAM figures are marketed sizes, so allow for reserved memory
+  const ramOk = device.ramGB === undefined || device.ramGB >= game.recommendedRamGB - 0.5;
+
+  if (ramOk && device.performanceClass >= game.maxClass) {
+    return verdict('max', 'Runs at max settings');
+  }
+  if (ramOk && device.performanceClass >= game.recommendedClass) {
+    return verdict('good', 'Runs well on high settings; max settings need a faster GPU', 'performance');
+  }
+  if (device.performanceClass < game.recommendedClass) {
+    return verdict('playableLow', 'Playable on low settings; higher settings need a faster GPU', 'performance');
+  }
+  return verdict('playableLow', `Playable on low settings; ${game.recommendedRamGB} GB RAM recommended`, 'ram');
+}
+
+function resolvePerformanceClass(
+  deviceInfo: DeviceInfo,
+  runtime: RuntimeSignals,
+  gaming: GamingCapability
+): { performanceClass: number; classSource: PerformanceClassSource } {
+  const render = runtime.renderPerformance;
+  if (render) {
+    const performanceClass = 1 + RENDER_CLASS_THRESHOLDS.filter(threshold => render.held60Elements >= threshold).length;
+    return { performanceClass, classSource: 'measured' };
+  }
+  if (deviceInfo.socClass) {
+    return { performanceClass: deviceInfo.socClass.gpuClass, classSource: 'soc' };
+  }
+  return { performanceClass: Math.min(5, Math.max(1, gaming.tier)), classSource: 'estimated' };
+}
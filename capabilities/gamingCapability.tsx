@@ -1,5 +1,13 @@
 import { DeviceInfo, RuntimeSignals, CapabilityResult } from './types';
-import { calculatePerformanceCapability } from './performanceCapability';
+import { SOC_CLASS_LABELS } from '../constants/socClasses';
+import { applyInputConfidence, CapabilityInput, describeGuessedInputs, deviceInput, runtimeInput } from './provenance';
+
+// Graphics weigh more in games than the CPU-led performance score shows
+const GPU_CLASS_MULTIPLIER: Record<number, number> = { 5: 1.15, 4: 1.05, 3: 0.95, 2: 0.8, 1: 0.65 };
+
+// Render benchmark load (animated shapes) a device must hold for each class of game
+const POPULAR_RENDER_LOAD = 50;  // at 30fps
+const AAA_RENDER_LOAD = 100;     // at 60fps
 
 export interface GamingCapability extends CapabilityResult {
   description: string;
@@ -11,14 +19,17 @@ export interface GamingCapability extends CapabilityResult {
 /**
  * Gaming Capability
  * Can this device handle modern gaming workloads?
- * Factors in both hardware capability and runtime constraints
+ * Factors in both hardware capability and runtime constraints,
+ * the SoC's GPU class when the chip is known, and measured frame rates
+ * from the render benchmark when it has run
  */
 export function calculateGamingCapability(
   deviceInfo: DeviceInfo,
-  runtime: RuntimeSignals
+  runtime: RuntimeSignals,
+  upstream: { performance: CapabilityResult }
 ): GamingCapability {
   // Start with base performance capability
-  const performance = calculatePerformanceCapability(deviceInfo);
+  const { performance } = upstream;
   
   let gamingScore = performance.score;
   let gamingConfidence = performance.confidence;
@@ -41,11 +52,81 @@ export function calculateGamingCapability(
     }
   }
 
+  // 1b. Measured usable memory predicts background kills and stutters
+  const effectiveMemory = runtime.effectiveMemory;
+  if (effectiveMemory) {
+    const availableMB = effectiveMemory.availableBytes / (1024 * 1024);
+    if (!effectiveMemory.atLeast && availableMB < 256) {
+      gamingScore *= 0.75;
+      explanations.push(`Only ~${Math.round(availableMB)}MB usable memory - games likely reload after switching apps`);
+      recommendedSettings.push('Close background apps before gaming');
+    } else if (!effectiveMemory.atLeast && availableMB < 512) {
+      gamingScore *= 0.9;
+      explanations.push('Tight usable memory may cause stutters in large games');
+    }
+    if (effectiveMemory.minBytes < effectiveMemory.availableBytes * 0.5) {
+      explanations.push('Usable memory varies between sessions - expect occasional background kills');
+    }
+    // Measured headroom is a better signal than total RAM alone
+    gamingConfidence = Math.min(100, gamingConfidence + Math.round(effectiveMemory.confidence / 20));
+  }
+
+  // 1c. Thermal throttling - long sessions run at the sustained rate, not the peak
+  const sustained = runtime.sustainedPerformance;
+  if (sustained) {
+    const retainedPercent = Math.round(sustained.ratio * 100);
+    if (sustained.ratio < 0.6) {
+      gamingScore *= 0.8;
+      explanations.push(`Throttles to ${retainedPercent}% of peak under sustained load - frame rates drop in long sessions`);
+      recommendedSettings.push('Lower graphics settings for sessions over a few minutes');
+    } else if (sustained.ratio < 0.8) {
+      gamingScore *= 0.9;
+      explanations.push(`Throttles to ${retainedPercent}% of peak under sustained load`);
+    } else {
+      explanations.push('Holds performance well under sustained load');
+    }
+    gamingConfidence = Math.min(100, gamingConfidence + 5);
+  }
+
+  // 1d. SoC graphics class and core layout
+  const soc = deviceInfo.socClass;
+  if (soc) {
+    gamingScore *= GPU_CLASS_MULTIPLIER[soc.gpuClass] ?? 1;
+    explanations.push(`${soc.name} graphics: ${SOC_CLASS_LABELS[soc.gpuClass] ?? 'unrated'}`);
+    if (soc.gpuClass <= 2) recommendedSettings.push('Use low graphics presets');
+    if (soc.primeCores + soc.performanceCores < 2) {
+      gamingScore *= 0.9;
+      explanations.push('Too few performance cores for demanding games');
+    }
+  }
+
+  // 1e. Measured rendering - frame rates under real animation load
+  const render = runtime.renderPerformance;
+  if (render) {
+    if (render.held60Elements >= AAA_RENDER_LOAD) {
+      gamingScore += 5;
+      explanations.push(`Held 60fps with ${render.held60Elements} animated shapes`);
+    } else if (render.held30Elements < POPULAR_RENDER_LOAD) {
+      gamingScore *= 0.8;
+      explanations.push(
+        render.below30At !== undefined
+          ? `Dropped below 30fps at ${render.below30At} animated shapes`
+          : 'Struggled to keep 30fps under animation load'
+      );
+      recommendedSettings.push('Cap games at 30fps');
+    } else if (render.below60At !== undefined) {
+      explanations.push(`Fell below 60fps at ${render.below60At} animated shapes`);
+    }
+    gamingConfidence = Math.min(100, gamingConfidence + 5);
+  }
+
   // 2. Refresh rate bonus (if available)
   if (deviceInfo.refreshRate) {
+    const provenance = deviceInfo.provenance?.refreshRate;
+    const sourceLabel = provenance === 'measured' ? 'measured' : provenance === 'spec' ? 'rated' : 'estimated';
     if (deviceInfo.refreshRate >= 90) {
       gamingScore += 5; // Small bonus for high refresh
-      explanations.push('High refresh rate display');
+      explanations.push(`High refresh rate display (${sourceLabel} ${deviceInfo.refreshRate}Hz)`);
       recommendedSettings.push('Enable high refresh mode if supported');
     }
   }
@@ -68,9 +149,26 @@ export function calculateGamingCapability(
     recommendedSettings.push('Free up space for game data');
   }
 
+  // Performance confidence already covers RAM and CPU; these are the inputs used here.
+  // RAM is listed again only so a guessed value gets named.
+  const inputs: CapabilityInput[] = [
+    deviceInput(deviceInfo, 'totalMemory', 'RAM', 0),
+    runtimeInput(runtime, 'batteryLevel', 'battery level', 0.5),
+    runtimeInput(runtime, 'freeStorage', 'free storage', 0.5),
+  ];
+  if (deviceInfo.refreshRate) inputs.push(deviceInput(deviceInfo, 'refreshRate', 'refresh rate', 0.35));
+  if (soc) inputs.push(deviceInput(deviceInfo, 'socClass', 'SoC', 0.5));
+  gamingConfidence = applyInputConfidence(gamingConfidence, inputs);
+
   // Determine capabilities
-  const canRunAAA = gamingScore >= 60; // Requires decent performance
-  const canRunPopular = gamingScore >= 40; // Lower threshold for popular games
+  // Measured frame rates decide when available; otherwise the score,
+  // with a known GPU class setting a floor beneath both
+  const canRunAAA = render
+    ? render.held60Elements >= AAA_RENDER_LOAD
+    : gamingScore >= 60 && (!soc || soc.gpuClass >= 4); // Requires decent performance
+  const canRunPopular = render
+    ? render.held30Elements >= POPULAR_RENDER_LOAD
+    : gamingScore >= 40 && (!soc || soc.gpuClass >= 2); // Lower threshold for popular games
 
   // Cap scores
   gamingScore = Math.min(Math.max(gamingScore, 0), 100);
@@ -104,6 +202,6 @@ export function calculateGamingCapability(
     canRunAAA,
     canRunPopular,
     recommendedSettings,
-    why: explanations.join(' '),
+    why: [explanations.join(' '), describeGuessedInputs(inputs)].filter(Boolean).join(' '),
   };
 }
\ No newline at end of file
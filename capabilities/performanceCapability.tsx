@@ -1,15 +1,32 @@
-import { DeviceInfo, CapabilityResult } from './types';
+import { DeviceInfo, RuntimeSignals, CapabilityResult } from './types';
+import { SOC_CLASS_LABELS } from '../constants/socClasses';
+import { applyInputConfidence, CapabilityInput, describeGuessedInputs, deviceInput, runtimeInput } from './provenance';
+
+// CPU points by SoC class, on the same scale as the benchmark bands
+const SOC_CPU_POINTS: Record<number, number> = { 5: 35, 4: 28, 3: 20, 2: 12, 1: 6 };
+
+// Names for the engine's 1-5 tiers; the 1-7 TIERS table belongs to the legacy scoring engine
+export const PERFORMANCE_TIER_LABELS: Record<number, string> = {
+  5: 'Flagship',
+  4: 'High-end',
+  3: 'Mid-range',
+  2: 'Entry',
+  1: 'Basic',
+};
 
 /**
  * Overall Performance Capability
  * Measures general responsiveness & multitasking ability
  * Conservative by design - assumes baseline performance for safety
+ * A measured CPU benchmark, when available, replaces the SoC class,
+ * which in turn replaces the core-count guess
+ * Confidence drops for every input that came from a guess or a default
  */
 export function calculatePerformanceCapability(
-  deviceInfo: DeviceInfo
+  deviceInfo: DeviceInfo,
+  runtime?: RuntimeSignals
 ): CapabilityResult {
   let score = 0;
-  let confidence = 100;
   const explanations: string[] = [];
 
   // 1. Memory Score (0-40 points)
@@ -32,13 +49,42 @@ export function calculatePerformanceCapability(
       explanations.push('Very limited RAM - keep few apps open');
     }
   } else {
-    confidence -= 20;
     explanations.push('RAM info unavailable - assuming baseline');
     score += 5; // Minimum baseline
   }
 
   // 2. CPU Score (0-35 points)
-  if (deviceInfo.cpuCount) {
+  const benchmark = runtime?.cpuBenchmark;
+  const soc = deviceInfo.socClass;
+  if (benchmark) {
+    if (benchmark.score >= 150) {
+      score += 35;
+      explanations.push(`Measured CPU score ${benchmark.score} - very fast processor`);
+    } else if (benchmark.score >= 100) {
+      score += 28;
+      explanations.push(`Measured CPU score ${benchmark.score} - fast processor`);
+    } else if (benchmark.score >= 70) {
+      score += 20;
+      explanations.push(`Measured CPU score ${benchmark.score} - capable processor`);
+    } else if (benchmark.score >= 40) {
+      score += 12;
+      explanations.push(`Measured CPU score ${benchmark.score} - modest processor`);
+    } else {
+      score += 6;
+      explanations.push(`Measured CPU score ${benchmark.score} - slow processor`);
+    }
+  } else if (soc) {
+    score += SOC_CPU_POINTS[soc.cpuClass] ?? 6;
+    explanations.push(`${soc.name} - ${SOC_CLASS_LABELS[soc.cpuClass] ?? 'unrated'} processor`);
+    if (soc.primeCores + soc.performanceCores === 0) {
+      explanations.push('Efficiency cores only - heavy apps open slowly');
+    } else if (soc.primeCores > 0) {
+      explanations.push(`${soc.primeCores + soc.performanceCores} performance cores including a prime core for bursts`);
+    }
+    if (soc.processNm >= 10) {
+      explanations.push(`Older ${soc.processNm}nm chip runs warm under load`);
+    }
+  } else if (deviceInfo.cpuCount) {
     const cores = deviceInfo.cpuCount;
     const is64Bit = deviceInfo.supportedCpuArchitectures?.some(arch => 
       arch.includes('64') || arch.includes('arm64')
@@ -58,7 +104,6 @@ export function calculatePerformanceCapability(
       explanations.push('Basic processor - may struggle with complex tasks');
     }
   } else {
-    confidence -= 20;
     explanations.push('CPU info unavailable - assuming baseline');
     score += 8;
   }
@@ -66,7 +111,10 @@ export function calculatePerformanceCapability(
   // 3. Display Complexity Score (0-25 points)
   // Higher pixel density = more GPU load
   const pixelDensity = deviceInfo.screenScale;
-  if (pixelDensity >= 3) {
+  if (pixelDensity >= 3 && soc && soc.gpuClass >= 4) {
+    score += 25;
+    explanations.push('Very high resolution, easily driven by the GPU');
+  } else if (pixelDensity >= 3) {
     score += 15; // Slightly penalize ultra-high density for performance
     explanations.push('Very high resolution - may impact performance');
   } else if (pixelDensity >= 2) {
@@ -88,15 +136,22 @@ export function calculatePerformanceCapability(
   else if (score >= 30) tier = 2;
   else tier = 1;
 
-  // Adjust confidence based on missing data
-  if (!deviceInfo.totalMemory || !deviceInfo.cpuCount) {
-    confidence = Math.max(confidence, 60); // Cap at 60 if missing critical data
-  }
+  // Confidence from where each input came from
+  const inputs: CapabilityInput[] = [
+    deviceInput(deviceInfo, 'totalMemory', 'RAM'),
+    benchmark && runtime
+      ? runtimeInput(runtime, 'cpuBenchmark', 'CPU benchmark')
+      : soc
+        ? deviceInput(deviceInfo, 'socClass', 'SoC')
+        : deviceInput(deviceInfo, 'cpuCount', 'CPU core count'),
+    deviceInput(deviceInfo, 'screenScale', 'display density'),
+  ];
+  const confidence = applyInputConfidence(100, inputs);
 
   return {
     tier,
     score,
     confidence,
-    why: explanations.join(' '),
+    why: [explanations.join(' '), describeGuessedInputs(inputs)].filter(Boolean).join(' '),
   };
 }
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { DeviceInfo, RuntimeSignals, Provenance } from './types';
+
+// Confidence lost per input, by where its value came from
+export const PROVENANCE_CONFIDENCE_PENALTY: Record<Provenance, number> = {
+  platform: 0,
+  measured: 0,
+  spec: 5,
+  heuristic: 15,
+  default: 20,
+};
+
+const GUESSED_LABELS: Partial<Record<Provenance, string>> = {
+  heuristic: 'guessed',
+  default: 'assumed',
+};
+
+export interface CapabilityInput {
+  label: string;                 // Human name used in "why" text
+  provenance: Provenance;
+  weight?: number;               // Share of the full penalty this input carries (default 1)
+}
+
+/**
+ * A DeviceInfo field as a capability input
+ */
+export function deviceInput<K extends keyof DeviceInfo>(
+  info: DeviceInfo,
+  field: Exclude<K, 'provenance'>,
+  label: string,
+  weight?: number
+): CapabilityInput {
+  return { label, provenance: resolveProvenance(info.provenance?.[field], info[field]), weight };
+}
+
+/**
+ * A RuntimeSignals field as a capability input
+ */
+export function runtimeInput<K extends keyof RuntimeSignals>(
+  runtime: RuntimeSignals,
+  field: Exclude<K, 'provenance'>,
+  label: string,
+  weight?: number
+): CapabilityInput {
+  return { label, provenance: resolveProvenance(runtime.provenance?.[field], runtime[field]), weight };
+}
+
+/**
+ * Lower a base confidence by the provenance of every input used
+ */
+export function applyInputConfidence(confidence: number, inputs: CapabilityInput[]): number {
+  const penalty = inputs.reduce(
+    (sum, input) => sum + Math.round(PROVENANCE_CONFIDENCE_PENALTY[input.provenance] * (input.weight ?? 1)),
+    0
+  );
+  return Math.min(100, Math.max(0, confidence - penalty));
+}
+
+/**
+ * "Estimated inputs: CPU core count (guessed), RAM (assumed)." or '' when nothing was guessed
+ */
+export function describeGuessedInputs(inputs: CapabilityInput[]): string {
+  const guessed = inputs
+    .filter(input => GUESSED_LABELS[input.provenance])
+    .map(input => `${input.label} (${GUESSED_LABELS[input.provenance]})`);
+  return guessed.length > 0 ? `Estimated inputs: ${guessed.join(', ')}.` : '';
+}
+
+// Fields without a recorded provenance count as platform values when present
+function resolveProvenance(recorded: Provenance | undefined, value: unknown): Provenance {
+  if (recorded) return recorded;
+  return value === undefined || value === null ? 'default' : 'platform';
+}
@@ -5,15 +5,161 @@ export interface DeviceInfo {
   screenSize: number;            // inches (diagonal)
   screenScale: number;           // pixel density
   refreshRate?: number;          // Hz
+  variableRefreshRate?: boolean; // display switches rates on its own (LTPO/adaptive)
+  soc?: string;                  // From Android Build info or the spec database
+  socClass?: SocClass;           // SoC table entry for soc
+  specMatch?: SpecMatchInfo;     // Spec database entry behind the 'spec' fields
+  provenance?: FieldProvenance<DeviceInfo>; // where each field came from
   osName: string;                // 'iOS' or 'Android'
+  osVersion?: string;            // e.g. '17.4' or '14'
   platformApiLevel?: number;     // Android API level
   supportedCpuArchitectures?: string[]; // ['arm64-v8a', 'armeabi-v7a', etc.]
 }
 
+/**
+ * Where a signal's value came from, most to least trustworthy:
+ * a platform API, an on-device measurement, the spec database,
+ * a model-name heuristic, or a hardcoded default
+ */
+export type Provenance = 'platform' | 'measured' | 'spec' | 'heuristic' | 'default';
+
+export type FieldProvenance<T> = Partial<Record<Exclude<keyof T, 'provenance'>, Provenance>>;
+
+export type SpecMatchKind = 'exact' | 'alias' | 'fuzzy';
+
+export interface SpecMatchInfo {
+  model: string;                 // Model name of the matched entry
+  matchedBy: SpecMatchKind;
+  score: number;                 // 0-1, below 1 only for fuzzy matches
+  version: number;               // Spec database version
+}
+
+export interface SocClass {
+  name: string;
+  cpuClass: number;              // 1 (entry level) - 5 (current flagship)
+  gpuClass: number;              // 1 (entry level) - 5 (current flagship)
+  processNm: number;
+  primeCores: number;
+  performanceCores: number;
+  efficiencyCores: number;
+  version: number;               // SoC table version
+}
+
+export interface MeasuredRefreshRate {
+  peakHz: number;                // Fastest rate a meaningful share of frames ran at
+  typicalHz: number;             // Rate of the largest cluster of frames
+  minHz: number;                 // Slowest such rate
+  variable: boolean;             // Frames clustered at more than one rate
+  frames: number;
+  timestamp: number;
+}
+
 export interface RuntimeSignals {
   batteryLevel: number;          // 0-1
   freeStorage: number;           // bytes
+  totalStorage?: number;         // bytes; sizes the storage safety reserve
   hasGyroscope: boolean;
+  measuredDrain?: MeasuredBatteryDrain; // from recorded battery samples
+  batteryHealth?: BatteryHealthEstimate; // from recorded charge curves
+  batteryCapacity?: BatteryCapacity; // resolved design capacity
+  cpuBenchmark?: MeasuredCpuBenchmark; // cached on-device CPU benchmark
+  effectiveMemory?: EffectiveMemory; // measured allocation headroom across sessions
+  storageThroughput?: MeasuredStorageThroughput; // cached storage benchmark
+  sustainedPerformance?: SustainedPerformance; // cached sustained-load (thermal) test
+  renderPerformance?: MeasuredRenderPerformance; // cached rendering stress test
+  provenance?: FieldProvenance<RuntimeSignals>; // where each field came from
+}
+
+export interface ThrottlingPoint {
+  elapsedMs: number;
+  relativeScore: number;         // Throughput vs the opening peak, 0-1
+  batteryLevel?: number;         // Battery 0-1 at the end of this stretch, if readable
+}
+
+export interface SustainedPerformance {
+  ratio: number;                 // Sustained throughput / peak throughput, 0-1
+  peakScore: number;             // CPU score while cool
+  sustainedScore: number;        // CPU score over the final stretch of the run
+  curve: ThrottlingPoint[];      // Downsampled throughput over the run
+  throttleAfterMs?: number;      // First point throughput stayed below 90% of peak
+  batteryDrainPercentPerHour?: number; // Drain under load, fitted over the curve; missing if charging
+  durationMs: number;
+  timestamp: number;
+  appVersion: string;
+}
+
+export interface RenderLoadLevel {
+  elements: number;              // Animated SVG shapes on screen
+  averageFps: number;
+  averageFrameMs: number;
+  p50FrameMs: number;
+  p95FrameMs: number;
+  droppedFrames?: number;        // Frames longer than 1.5 display intervals; only with a measured display rate
+  frames: number;
+}
+
+export interface MeasuredRenderPerformance {
+  levels: RenderLoadLevel[];     // Lightest first; stops once the frame rate collapses
+  held60Elements: number;        // Heaviest load that kept 60fps, 0 if none did
+  held30Elements: number;        // Heaviest load that kept 30fps, 0 if none did
+  below60At?: number;            // First load under 60fps; missing if every level held it
+  below30At?: number;            // First load under 30fps
+  displayHz?: number;            // Measured refresh rate dropped frames were judged against
+  timestamp: number;
+  appVersion: string;
+}
+
+export interface MeasuredStorageThroughput {
+  sequentialWriteMBps: number;
+  sequentialReadMBps: number;
+  smallFileWriteMBps: number;    // 4KB files
+  smallFileReadMBps: number;
+  sustainedWriteMBps: number;    // Second half of a multi-second write stream
+  synced?: boolean;              // Writes reached flash; otherwise every rate is an upper bound set by the page cache
+  timestamp: number;
+}
+
+export interface EffectiveMemory {
+  availableBytes: number;        // Median allocation reached before slowdown
+  minBytes: number;              // Worst session
+  atLeast: boolean;              // Every probe hit its cap; real headroom is higher
+  samples: number;
+  confidence: number;            // 0-100, grows with sessions sampled
+}
+
+export type CpuWorkload = 'integer' | 'float' | 'json' | 'sort' | 'string';
+
+export interface MeasuredCpuBenchmark {
+  score: number;                 // Normalized, 100 = mid-range reference phone
+  workloads: Record<CpuWorkload, number>; // Normalized score per workload
+  durationMs: number;
+  timestamp: number;
+  appVersion: string;            // Results are only reused on the same app version
+}
+
+export interface MeasuredBatteryDrain {
+  screenOnPercentPerHour: number; // % of battery per hour with the screen on
+  idlePercentPerHour?: number;    // % per hour with the app in the background
+  samples: number;               // battery samples behind the estimate
+  confidence: number;            // 0-100, grows as samples accumulate
+}
+
+export type BatteryCapacitySource = 'user' | 'table' | 'measured' | 'default';
+
+export interface BatteryCapacity {
+  mAh: number;
+  source: BatteryCapacitySource; // user override, spec database, inferred from drain, or fallback
+  tableVersion?: number;         // DEVICE_SPEC_DB version when source is 'table'
+  tableMatch?: SpecMatchKind;    // How the spec entry was matched when source is 'table'
+}
+
+export type BatteryHealthGrade = 'Excellent' | 'Good' | 'Fair' | 'Poor' | 'Unknown';
+
+export interface BatteryHealthEstimate {
+  grade: BatteryHealthGrade;
+  confidence: number;            // 0-100, grows with observed charge/drain time
+  explanation: string;           // Human summary of the evidence
+  chargeMinutes20to80?: number;  // Measured time to charge from 20% to 80%
 }
 
 export interface CapabilityResult {
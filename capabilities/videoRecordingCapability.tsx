@@ -1,22 +1,64 @@
 import { DeviceInfo, RuntimeSignals, CapabilityResult } from './types';
-import { calculatePerformanceCapability } from './performanceCapability';
+import { VIDEO_MODES, VideoFrameRate, VideoMode, VideoModeSpec, VideoResolution } from '../constants/videoModes';
+import { DEFAULT_BATTERY_CAPACITY_MAH } from '../utils/batteryCapacity';
+import { getSafetyReserve } from '../utils/storagePlanner';
+import { applyInputConfidence, CapabilityInput, describeGuessedInputs, deviceInput, runtimeInput } from './provenance';
+
+export type { VideoFrameRate, VideoMode, VideoResolution } from '../constants/videoModes';
+
+export type VideoLimitingFactor = 'storage' | 'battery' | 'thermal' | 'writeSpeed' | 'performance';
+
+export interface VideoModeAssessment extends VideoMode {
+  supported: boolean;            // False when the device can't hold the mode at all
+  minutes: number;               // Recordable now; 0 when unsupported
+  storageMinutes: number;
+  batteryMinutes: number;
+  limitingFactor: VideoLimitingFactor;
+  reason: string;
+}
 
 export interface VideoRecordingCapability extends CapabilityResult {
   status: 'Excellent' | 'Good' | 'Risky' | 'Not Recommended';
   limitations: string[];
   recommendations: string[];
+  modes: VideoModeAssessment[];  // Every resolution x frame rate, lowest quality first
+  recommendedMode: VideoMode;
 }
 
+const getModeSpec = (resolution: VideoResolution, fps: VideoFrameRate) =>
+  VIDEO_MODES.find(mode => mode.resolution === resolution && mode.fps === fps)!;
+
+const BITRATE_4K30_MBPS = getModeSpec('4K', 30).bitrateMBps;
+const BITRATE_4K60_MBPS = getModeSpec('4K', 60).bitrateMBps;
+// Left in the battery so the phone doesn't die mid-clip; storage keeps the
+// same safety reserve as the storage planner
+const BATTERY_RESERVE_PERCENT = 5;
+// Longest clip a throttling device holds a high-bitrate mode before dropping frames
+const SEVERE_THROTTLE_CLIP_MINUTES = 10;
+const MILD_THROTTLE_CLIP_MINUTES = 25;
+// The recommended default must allow at least this long a recording
+const RECOMMENDED_MIN_MINUTES = 30;
+// Storage must beat the bitrate with room for other I/O
+const WRITE_HEADROOM = 1.5;
+// Sustained / peak CPU throughput below these means the encoder will be throttled
+const SEVERE_THROTTLE_RATIO = 0.6;
+const MILD_THROTTLE_RATIO = 0.8;
+
 /**
  * 4K Video Recording Capability
  * Real-world camera usability assessment, not camera specs
  * Conservative assessment focusing on practical constraints
+ * Uses the measured sustained write rate, when benchmarked, to check
+ * the disk can keep up with a 4K bitrate, and the sustained-load test
+ * for thermal throttling. Alongside the 4K verdict, every resolution and
+ * frame rate gets its recordable minutes and what limits it.
  */
 export function calculateVideoRecordingCapability(
   deviceInfo: DeviceInfo,
-  runtime: RuntimeSignals
+  runtime: RuntimeSignals,
+  upstream: { performance: CapabilityResult }
 ): VideoRecordingCapability {
-  const performance = calculatePerformanceCapability(deviceInfo);
+  const { performance } = upstream;
   const limitations: string[] = [];
   const recommendations: string[] = [];
   let riskScore = 0; // Lower is better
@@ -31,6 +73,23 @@ export function calculateVideoRecordingCapability(
     recommendations.push('Free up storage space');
   }
 
+  // Sustained write speed must keep up with the 4K bitrate. An unsynced
+  // rate is an upper bound, so only a failing check is conclusive.
+  const throughput = runtime.storageThroughput;
+  if (throughput) {
+    const writeRate = throughput.sustainedWriteMBps;
+    const sustains = throughput.synced ? 'sustains' : 'sustains at most';
+    if (writeRate < BITRATE_4K30_MBPS * WRITE_HEADROOM) {
+      riskScore += 40;
+      limitations.push(`Storage ${sustains} ${writeRate.toFixed(1)}MB/s - too slow for a 4K bitrate`);
+      recommendations.push('Record in 1080p to avoid dropped frames');
+    } else if (writeRate < BITRATE_4K60_MBPS * WRITE_HEADROOM) {
+      riskScore += 10;
+      limitations.push(`Storage ${sustains} ${writeRate.toFixed(1)}MB/s - 4K60 may drop frames`);
+      recommendations.push('Prefer 4K at 30fps');
+    }
+  }
+
   // Battery minimum: 30% for reliable recording
   if (runtime.batteryLevel < 0.3) {
     riskScore += 40;
@@ -63,12 +122,38 @@ export function calculateVideoRecordingCapability(
     }
   }
 
-  // Thermal considerations (proxy: screen size * performance)
-  const thermalRisk = deviceInfo.screenSize * performance.tier;
-  if (thermalRisk > 20) {
-    riskScore += 10;
-    limitations.push('Device may heat up during extended 4K recording');
-    recommendations.push('Record in shorter clips');
+  // Measured usable memory (other apps may leave little room for buffers)
+  const effectiveMemory = runtime.effectiveMemory;
+  if (effectiveMemory && !effectiveMemory.atLeast) {
+    const availableMB = effectiveMemory.availableBytes / (1024 * 1024);
+    if (availableMB < 256) {
+      riskScore += 15;
+      limitations.push(`Only ~${Math.round(availableMB)}MB usable memory - may drop frames or restart the camera`);
+      recommendations.push('Close other apps before long recordings');
+    }
+  }
+
+  // Thermal considerations: measured throttling when the sustained test has run
+  const sustained = runtime.sustainedPerformance;
+  if (sustained) {
+    const retainedPercent = Math.round(sustained.ratio * 100);
+    if (sustained.ratio < SEVERE_THROTTLE_RATIO) {
+      riskScore += 25;
+      limitations.push(`Throttles to ${retainedPercent}% under sustained load - long 4K clips may stutter or stop`);
+      recommendations.push('Record in shorter clips');
+    } else if (sustained.ratio < MILD_THROTTLE_RATIO) {
+      riskScore += 10;
+      limitations.push(`Throttles to ${retainedPercent}% under sustained load`);
+      recommendations.push('Record in shorter clips');
+    }
+  } else {
+    // Fallback proxy until measured: screen size * performance
+    const thermalRisk = deviceInfo.screenSize * performance.tier;
+    if (thermalRisk > 20) {
+      riskScore += 10;
+      limitations.push('Device may heat up during extended 4K recording');
+      recommendations.push('Record in shorter clips');
+    }
   }
 
   // 3. CALCULATE FINAL STATUS
@@ -95,9 +180,21 @@ export function calculateVideoRecordingCapability(
     confidence = 90;
   }
 
+  // Guessed storage, battery or sensor readings make the verdict less certain
+  const inputs: CapabilityInput[] = [
+    runtimeInput(runtime, 'freeStorage', 'free storage'),
+    runtimeInput(runtime, 'batteryLevel', 'battery level', 0.5),
+    runtimeInput(runtime, 'hasGyroscope', 'gyroscope', 0.5),
+    deviceInput(deviceInfo, 'totalMemory', 'RAM', 0.5),
+  ];
+  if (throughput) inputs.push(runtimeInput(runtime, 'storageThroughput', 'storage write speed', 0.5));
+  confidence = applyInputConfidence(confidence, inputs);
+
   // Convert risk score to capability score (inverse)
   const score = Math.max(0, 100 - riskScore);
 
+  const { modes, recommendedMode } = assessVideoModes(runtime, performance.tier);
+
   return {
     tier,
     score,
@@ -105,8 +202,98 @@ export function calculateVideoRecordingCapability(
     status,
     limitations,
     recommendations,
-    why: riskScore > 0 ? 
-      `Recording capability affected by: ${limitations.join(', ')}` :
-      'All requirements met for stable 4K recording',
+    modes,
+    recommendedMode,
+    why: [
+      riskScore > 0 ?
+        `Recording capability affected by: ${limitations.join(', ')}` :
+        'All requirements met for stable 4K recording',
+      describeGuessedInputs(inputs),
+    ].filter(Boolean).join('. '),
   };
-}
\ No newline at end of file
+}
+
+/* =======================
+   MODE MATRIX
+======================= */
+
+/**
+ * Every resolution x frame rate with its recordable minutes, and the default to suggest
+ */
+export function assessVideoModes(
+  runtime: RuntimeSignals,
+  performanceTier: number
+): Pick<VideoRecordingCapability, 'modes' | 'recommendedMode'> {
+  const modes = VIDEO_MODES.map(mode => assessVideoMode(mode, runtime, performanceTier));
+  return { modes, recommendedMode: recommendVideoMode(modes) };
+}
+
+/**
+ * Recordable minutes for one mode: the lower of what free storage holds at
+ * the mode's bitrate and what the battery lasts at its drain, capped for
+ * throttling devices. Modes the processor or storage can't sustain at all
+ * are unsupported.
+ */
+function assessVideoMode(
+  mode: VideoModeSpec,
+  runtime: RuntimeSignals,
+  performanceTier: number
+): VideoModeAssessment {
+  const label = `${mode.resolution}${mode.fps}`;
+  const usableBytes = Math.max(0, runtime.freeStorage - getSafetyReserve(runtime.totalStorage ?? 0));
+  const storageMinutes = Math.floor(usableBytes / (mode.bitrateMBps * 1024 * 1024) / 60);
+
+  const capacity = runtime.batteryCapacity?.mAh ?? DEFAULT_BATTERY_CAPACITY_MAH;
+  const drainPerHour = mode.drainPercentPerHour * (DEFAULT_BATTERY_CAPACITY_MAH / capacity);
+  const usablePercent = Math.max(0, runtime.batteryLevel * 100 - BATTERY_RESERVE_PERCENT);
+  const batteryMinutes = Math.floor((usablePercent / drainPerHour) * 60);
+
+  const base = { resolution: mode.resolution, fps: mode.fps, storageMinutes, batteryMinutes };
+  const unsupported = (limitingFactor: VideoLimitingFactor, reason: string): VideoModeAssessment => ({
+    ...base,
+    supported: false,
+    minutes: 0,
+    limitingFactor,
+    reason,
+  });
+
+  if (performanceTier < mode.minPerformanceTier) {
+    return unsupported('performance', `Processor too slow to encode ${label}`);
+  }
+  const throughput = runtime.storageThroughput;
+  if (throughput && throughput.sustainedWriteMBps < mode.bitrateMBps * WRITE_HEADROOM) {
+    const sustains = throughput.synced ? 'sustains' : 'sustains at most';
+    return unsupported('writeSpeed', `Storage ${sustains} ${throughput.sustainedWriteMBps.toFixed(1)}MB/s, ${label} needs ${(mode.bitrateMBps * WRITE_HEADROOM).toFixed(1)}MB/s`);
+  }
+
+  // Throttling only bites on the heavier encodes
+  const ratio = runtime.sustainedPerformance?.ratio;
+  const thermalMinutes = ratio === undefined || mode.bitrateMBps < BITRATE_4K30_MBPS
+    ? Infinity
+    : ratio < SEVERE_THROTTLE_RATIO
+      ? SEVERE_THROTTLE_CLIP_MINUTES
+      : ratio < MILD_THROTTLE_RATIO
+        ? MILD_THROTTLE_CLIP_MINUTES
+        : Infinity;
+
+  const minutes = Math.min(storageMinutes, batteryMinutes, thermalMinutes);
+  if (minutes === thermalMinutes) {
+    return { ...base, supported: true, minutes, limitingFactor: 'thermal', reason: `Overheats after about ${minutes} min` };
+  }
+  if (minutes === storageMinutes) {
+    return { ...base, supported: true, minutes, limitingFactor: 'storage', reason: `Free storage holds ${minutes} min` };
+  }
+  return { ...base, supported: true, minutes, limitingFactor: 'battery', reason: `Battery lasts ${minutes} min` };
+}
+
+/**
+ * Highest-quality mode that still records for a useful length,
+ * else whichever records longest
+ */
+function recommendVideoMode(modes: VideoModeAssessment[]): VideoMode {
+  const usable = modes.filter(mode => mode.supported && mode.minutes >= RECOMMENDED_MIN_MINUTES);
+  const best = usable.length > 0
+    ? usable[usable.length - 1]
+    : modes.reduce((longest, mode) => (mode.minutes > longest.minutes ? mode : longest));
+  return { resolution: best.resolution, fps: best.fps };
+}
@@ -0,0 +1,165 @@
+// components/BatteryCapacityEditor.tsx
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { colors } from '../constants/colors';
+import type { BatteryCapacitySource } from '../capabilities/types';
+import {
+  isValidBatteryCapacity,
+  MAX_BATTERY_CAPACITY_MAH,
+  MIN_BATTERY_CAPACITY_MAH,
+} from '../utils/batteryCapacity';
+
+interface BatteryCapacityEditorProps {
+  capacity?: number;
+  source: BatteryCapacitySource;
+  onSave: (mAh: number | undefined) => void;
+}
+
+const SOURCE_LABELS: Record<BatteryCapacitySource, string> = {
+  user: 'Set by you',
+  table: 'From device database',
+  measured: 'Inferred from measured drain',
+  default: 'Assumed — set yours for better estimates',
+};
+
+const BatteryCapacityEditor: React.FC<BatteryCapacityEditorProps> = ({
+  capacity,
+  source,
+  onSave,
+}) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  const draftValue = parseInt(draft, 10);
+  const draftValid = isValidBatteryCapacity(draftValue);
+
+  const startEditing = () => {
+    setDraft(capacity ? String(capacity) : '');
+    setEditing(true);
+  };
+
+  const save = () => {
+    if (!draftValid) return;
+    onSave(draftValue);
+    setEditing(false);
+  };
+
+  const reset = () => {
+    onSave(undefined);
+    setEditing(false);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <View>
+          <Text style={styles.label}>Battery Capacity</Text>
+          <Text style={styles.source}>{SOURCE_LABELS[source]}</Text>
+        </View>
+        {!editing && (
+          <TouchableOpacity onPress={startEditing} activeOpacity={0.7}>
+            <Text style={styles.value}>
+              {capacity ? `${capacity.toLocaleString()} mAh` : 'Unknown'}
+              <Text style={styles.action}>  Edit</Text>
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {editing && (
+        <View style={styles.editor}>
+          <TextInput
+            style={[styles.input, !draftValid && draft !== '' && styles.inputInvalid]}
+            value={draft}
+            onChangeText={setDraft}
+            keyboardType="number-pad"
+            placeholder="mAh"
+            maxLength={5}
+            autoFocus
+          />
+          <TouchableOpacity onPress={save} disabled={!draftValid} activeOpacity={0.7}>
+            <Text style={[styles.action, !draftValid && styles.actionDisabled]}>Save</Text>
+          </TouchableOpacity>
+          {source === 'user' && (
+            <TouchableOpacity onPress={reset} activeOpacity={0.7}>
+              <Text style={styles.action}>Reset</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity onPress={() => setEditing(false)} activeOpacity={0.7}>
+            <Text style={styles.cancel}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      {editing && !draftValid && draft !== '' && (
+        <Text style={styles.hint}>
+          Enter a value between {MIN_BATTERY_CAPACITY_MAH} and {MAX_BATTERY_CAPACITY_MAH} mAh
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+    marginBottom: 20,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  label: {
+    fontSize: 14,
+    color: colors.text,
+    fontWeight: '600',
+  },
+  source: {
+    fontSize: 12,
+    color: colors.gray,
+    marginTop: 2,
+  },
+  value: {
+    fontSize: 14,
+    color: colors.text,
+    fontWeight: '600',
+  },
+  action: {
+    fontSize: 14,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  actionDisabled: {
+    color: colors.gray,
+  },
+  cancel: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  editor: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 10,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: colors.lightGray,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 14,
+    color: colors.text,
+  },
+  inputInvalid: {
+    borderColor: colors.error,
+  },
+  hint: {
+    fontSize: 12,
+    color: colors.error,
+    marginTop: 4,
+  },
+});
+
+export default BatteryCapacityEditor;
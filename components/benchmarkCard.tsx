@@ -0,0 +1,176 @@
+// components/BenchmarkCard.tsx
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors } from '../constants/colors';
+
+const IconsComponent = Ionicons as any;
+
+interface BenchmarkCardProps {
+  title: string;
+  icon: string;
+  description: string;
+  result?: string | null;
+  error?: string | null;         // Why the last run failed
+  running: boolean;
+  progress?: number;             // 0-1
+  stage?: string;
+  disabled?: boolean;
+  onRun: () => void;
+  onCancel: () => void;
+  children?: React.ReactNode;    // Extra details between the header and the footer
+}
+
+const BenchmarkCard: React.FC<BenchmarkCardProps> = ({
+  title,
+  icon,
+  description,
+  result,
+  error,
+  running,
+  progress = 0,
+  stage,
+  disabled = false,
+  onRun,
+  onCancel,
+  children,
+}) => {
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <View style={styles.iconContainer}>
+          <IconsComponent name={icon} size={22} color={colors.primary} />
+        </View>
+        <View style={styles.headerText}>
+          <Text style={styles.title}>{title}</Text>
+          <Text style={styles.description}>{description}</Text>
+        </View>
+      </View>
+
+      {children}
+
+      {error && !running && <Text style={styles.error}>{error}</Text>}
+
+      {running ? (
+        <View>
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${Math.round(progress * 100)}%` }]} />
+          </View>
+          <View style={styles.footer}>
+            <Text style={styles.stage}>{stage ? `Running ${stage}...` : 'Running...'}</Text>
+            <TouchableOpacity onPress={onCancel} activeOpacity={0.7}>
+              <Text style={styles.cancel}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <View style={styles.footer}>
+          <Text style={styles.result}>{result ?? 'Not run yet'}</Text>
+          <TouchableOpacity
+            onPress={onRun}
+            disabled={disabled}
+            style={[styles.runButton, disabled && styles.runButtonDisabled]}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.runText}>{result ? 'Run again' : 'Run'}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.cardBackground,
+    borderRadius: 16,
+    padding: 16,
+    marginHorizontal: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.primary + '15',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 2,
+  },
+  description: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.lightGray,
+    overflow: 'hidden',
+    marginBottom: 10,
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: colors.primary,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  stage: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  result: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+    marginRight: 12,
+  },
+  runButton: {
+    backgroundColor: colors.primary,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+  },
+  runButtonDisabled: {
+    opacity: 0.5,
+  },
+  runText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  cancel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.error,
+  },
+  error: {
+    fontSize: 13,
+    color: colors.error,
+    marginBottom: 10,
+  },
+});
+
+export default BenchmarkCard;
@@ -0,0 +1,153 @@
+// components/ChargingHabits.tsx
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { colors } from '../constants/colors';
+import type { ChargeInsight, ChargingSession } from '../utils/chargingSessions';
+
+interface ChargingHabitsProps {
+  sessions: ChargingSession[];
+  insights: ChargeInsight[];
+  maxSessions?: number;
+}
+
+const formatDuration = (minutes: number) => {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+};
+
+const formatDay = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const hours = date.getHours();
+  const minutes = date.getMinutes();
+  return `${date.getMonth() + 1}/${date.getDate()} ${hours}:${minutes < 10 ? '0' : ''}${minutes}`;
+};
+
+const insightColor = (kind: ChargeInsight['kind']) => {
+  switch (kind) {
+    case 'warning': return colors.warning;
+    case 'tip': return colors.primary;
+    default: return colors.accent;
+  }
+};
+
+const ChargingHabits: React.FC<ChargingHabitsProps> = ({
+  sessions,
+  insights,
+  maxSessions = 5,
+}) => {
+  const recent = [...sessions].reverse().slice(0, maxSessions);
+
+  return (
+    <View style={styles.container}>
+      {insights.map(insight => (
+        <View
+          key={insight.id}
+          style={[styles.insight, { backgroundColor: insightColor(insight.kind) + '15' }]}
+        >
+          <Text style={styles.insightEmoji}>{insight.emoji}</Text>
+          <View style={styles.insightContent}>
+            <Text style={styles.insightTitle}>{insight.title}</Text>
+            <Text style={styles.insightDescription}>{insight.description}</Text>
+          </View>
+        </View>
+      ))}
+
+      {recent.length > 0 ? (
+        <View style={styles.sessions}>
+          <Text style={styles.sessionsTitle}>Recent charging sessions</Text>
+          {recent.map(session => (
+            <View key={session.start} style={styles.sessionRow}>
+              <View>
+                <Text style={styles.sessionLevels}>
+                  {Math.round(session.startLevel * 100)}% → {Math.round(session.endLevel * 100)}%
+                </Text>
+                <Text style={styles.sessionMeta}>
+                  {formatDay(session.start)}{session.overnight ? ' · overnight' : ''}
+                </Text>
+              </View>
+              <View style={styles.sessionStats}>
+                <Text style={styles.sessionDuration}>{formatDuration(session.durationMinutes)}</Text>
+                <Text style={styles.sessionMeta}>{Math.round(session.percentPerHour)}%/h</Text>
+              </View>
+            </View>
+          ))}
+        </View>
+      ) : (
+        <Text style={styles.emptyText}>
+          Charging sessions appear here after you plug in a few times.
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+  insight: {
+    flexDirection: 'row',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+  },
+  insightEmoji: {
+    fontSize: 22,
+    marginRight: 10,
+  },
+  insightContent: {
+    flex: 1,
+  },
+  insightTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 2,
+  },
+  insightDescription: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    lineHeight: 18,
+  },
+  sessions: {
+    marginTop: 6,
+  },
+  sessionsTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 8,
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.lightGray,
+  },
+  sessionLevels: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  sessionMeta: {
+    fontSize: 12,
+    color: colors.gray,
+  },
+  sessionStats: {
+    alignItems: 'flex-end',
+  },
+  sessionDuration: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+});
+
+export default ChargingHabits;
@@ -0,0 +1,228 @@
+// components/GameCompatibilityList.tsx
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors } from '../constants/colors';
+import {
+  GAME_VERDICT_LABELS,
+  GameCompatibility,
+  GameLimitingFactor,
+  GameVerdictLevel,
+} from '../capabilities/gameCompatibility';
+
+const IconsComponent = Ionicons as any;
+
+interface GameCompatibilityListProps {
+  compatibility: GameCompatibility;
+}
+
+type VerdictFilter = GameVerdictLevel | 'all';
+
+const FILTERS: VerdictFilter[] = ['all', 'max', 'good', 'playableLow', 'wontInstall'];
+
+const VERDICT_COLORS: Record<GameVerdictLevel, string> = {
+  max: colors.success,
+  good: colors.tier4,
+  playableLow: colors.warning,
+  wontInstall: colors.error,
+};
+
+const FACTOR_LABELS: Record<GameLimitingFactor, string> = {
+  platform: 'Platform',
+  os: 'OS version',
+  storage: 'Storage',
+  ram: 'RAM',
+  performance: 'Performance',
+};
+
+const CLASS_SOURCE_LABELS: Record<GameCompatibility['classSource'], string> = {
+  measured: 'from the rendering benchmark',
+  soc: 'from your chipset',
+  estimated: 'estimated from the gaming score',
+};
+
+const GameCompatibilityList: React.FC<GameCompatibilityListProps> = ({ compatibility }) => {
+  const [query, setQuery] = useState('');
+  const [filter, setFilter] = useState<VerdictFilter>('all');
+
+  const search = query.trim().toLowerCase();
+  const visible = compatibility.verdicts.filter(game =>
+    (filter === 'all' || game.verdict === filter) &&
+    (!search || game.title.toLowerCase().includes(search) || game.genre.toLowerCase().includes(search))
+  );
+
+  const countFor = (value: VerdictFilter) =>
+    value === 'all'
+      ? compatibility.verdicts.length
+      : compatibility.verdicts.filter(game => game.verdict === value).length;
+
+  return (
+    <View>
+      <Text style={styles.classNote}>
+        Judged at performance class {compatibility.performanceClass}/5,{' '}
+        {CLASS_SOURCE_LABELS[compatibility.classSource]}
+      </Text>
+
+      <View style={styles.searchBox}>
+        <IconsComponent name="search-outline" size={18} color={colors.gray} />
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search games or genres"
+          placeholderTextColor={colors.gray}
+          autoCorrect={false}
+        />
+        {query !== '' && (
+          <TouchableOpacity onPress={() => setQuery('')} activeOpacity={0.7}>
+            <IconsComponent name="close-circle" size={18} color={colors.gray} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View style={styles.filters}>
+        {FILTERS.map(value => {
+          const active = filter === value;
+          return (
+            <TouchableOpacity
+              key={value}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => setFilter(value)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                {value === 'all' ? 'All' : GAME_VERDICT_LABELS[value]} ({countFor(value)})
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.list}>
+        {visible.map(game => {
+          const color = VERDICT_COLORS[game.verdict];
+          return (
+            <View key={game.title} style={styles.gameItem}>
+              <View style={styles.gameHeader}>
+                <View style={styles.gameText}>
+                  <Text style={styles.gameTitle}>{game.title}</Text>
+                  <Text style={styles.gameGenre}>{game.genre}</Text>
+                </View>
+                <View style={[styles.badge, { backgroundColor: color + '20' }]}>
+                  <Text style={[styles.badgeText, { color }]}>{GAME_VERDICT_LABELS[game.verdict]}</Text>
+                </View>
+              </View>
+              <Text style={styles.gameReason}>
+                {game.limitingFactor && (
+                  <Text style={styles.gameFactor}>{FACTOR_LABELS[game.limitingFactor]}: </Text>
+                )}
+                {game.reason}
+              </Text>
+            </View>
+          );
+        })}
+        {visible.length === 0 && (
+          <Text style={styles.empty}>No games match</Text>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  classNote: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: 12,
+    marginLeft: 4,
+  },
+  searchBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.cardBackground,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    marginBottom: 12,
+    gap: 8,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: colors.text,
+  },
+  filters: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: colors.lightGray,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  list: {
+    gap: 12,
+  },
+  gameItem: {
+    backgroundColor: colors.cardBackground,
+    borderRadius: 12,
+    padding: 16,
+  },
+  gameHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  gameText: {
+    flex: 1,
+    marginRight: 8,
+  },
+  gameTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  gameGenre: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  badge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  gameReason: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  gameFactor: {
+    fontWeight: '600',
+    color: colors.text,
+  },
+  empty: {
+    fontSize: 14,
+    color: colors.gray,
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+});
+
+export default GameCompatibilityList;
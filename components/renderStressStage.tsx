@@ -0,0 +1,167 @@
+// components/RenderStressStage.tsx
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, Dimensions } from 'react-native';
+import Svg, { Circle } from 'react-native-svg';
+import Animated, {
+  cancelAnimation,
+  Easing,
+  SharedValue,
+  useAnimatedProps,
+  useFrameCallback,
+  useSharedValue,
+  withRepeat,
+  withTiming,
+} from 'react-native-reanimated';
+import { renderBenchmark } from '../utils/renderBenchmark';
+import { colors } from '../constants/colors';
+
+const AnimatedCircle = Animated.createAnimatedComponent(Circle);
+
+const STAGE_HEIGHT = 220;
+const STAGE_WIDTH = Dimensions.get('window').width - 32;
+const LOOP_MS = 2000;
+const SHAPE_COLORS = [colors.primary, colors.secondary, colors.success, colors.warning, colors.error];
+
+interface StressShapeProps {
+  index: number;
+  progress: SharedValue<number>;
+}
+
+// Each shape follows its own orbit so every frame recomputes every prop on the UI thread
+const StressShape: React.FC<StressShapeProps> = ({ index, progress }) => {
+  const animatedProps = useAnimatedProps(() => {
+    const phase = progress.value * 2 * Math.PI * (1 + (index % 3)) + index * 0.7;
+    return {
+      cx: STAGE_WIDTH / 2 + Math.cos(phase) * (STAGE_WIDTH / 2 - 16),
+      cy: STAGE_HEIGHT / 2 + Math.sin(phase * 1.3) * (STAGE_HEIGHT / 2 - 16),
+      r: 6 + ((index + progress.value * 8) % 8),
+    };
+  });
+
+  return (
+    <AnimatedCircle
+      animatedProps={animatedProps}
+      fill={SHAPE_COLORS[index % SHAPE_COLORS.length]}
+      fillOpacity={0.6}
+    />
+  );
+};
+
+/**
+ * Render Stress Stage
+ * On-screen half of the render benchmark: draws the requested number of
+ * animated shapes and counts UI-thread frames while the benchmark records.
+ * Collapses to nothing while idle.
+ */
+const RenderStressStage: React.FC = () => {
+  const [elements, setElements] = useState(0);
+  const pendingLoad = useRef<(() => void) | null>(null);
+  const currentLoad = useRef(0);
+  const mounted = useRef(true);
+
+  const progress = useSharedValue(0);
+  const recording = useSharedValue(false);
+  const droppedAboveMs = useSharedValue(25);
+  const frames = useSharedValue(0);
+  const totalMs = useSharedValue(0);
+  const dropped = useSharedValue(0);
+  const intervals = useSharedValue<number[]>([]);
+
+  useFrameCallback(({ timeSincePreviousFrame }) => {
+    if (!recording.value || timeSincePreviousFrame === null) return;
+    frames.value += 1;
+    totalMs.value += timeSincePreviousFrame;
+    // 0 means no measured display rate to judge drops against
+    if (droppedAboveMs.value > 0 && timeSincePreviousFrame > droppedAboveMs.value) dropped.value += 1;
+    intervals.modify((list: any) => {
+      'worklet';
+      list.push(timeSincePreviousFrame);
+      return list;
+    }, false);
+  });
+
+  useEffect(() => {
+    const detach = renderBenchmark.attachStage({
+      setLoad: count => new Promise<void>(resolve => {
+        // Nothing will re-render once unmounted or when the load is unchanged
+        if (!mounted.current || currentLoad.current === count) return resolve();
+        currentLoad.current = count;
+        pendingLoad.current = resolve;
+        setElements(count);
+      }),
+      startFrames: thresholdMs => {
+        droppedAboveMs.value = thresholdMs ?? 0;
+        frames.value = 0;
+        totalMs.value = 0;
+        dropped.value = 0;
+        intervals.value = [];
+        recording.value = true;
+      },
+      stopFrames: () => {
+        recording.value = false;
+        return {
+          frames: frames.value,
+          totalMs: totalMs.value,
+          dropped: dropped.value,
+          intervals: [...intervals.value],
+        };
+      },
+    });
+
+    return () => {
+      mounted.current = false;
+      pendingLoad.current?.();
+      pendingLoad.current = null;
+      detach();
+    };
+  }, []);
+
+  // Loop the shared clock only while shapes are on screen
+  useEffect(() => {
+    if (elements > 0) {
+      progress.value = 0;
+      progress.value = withRepeat(withTiming(1, { duration: LOOP_MS, easing: Easing.linear }), -1);
+    } else {
+      cancelAnimation(progress);
+    }
+    // Resolve after the shapes have been committed and drawn once
+    const frameId = requestAnimationFrame(() => {
+      pendingLoad.current?.();
+      pendingLoad.current = null;
+    });
+    return () => cancelAnimationFrame(frameId);
+  }, [elements]);
+
+  if (elements === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <Svg width={STAGE_WIDTH} height={STAGE_HEIGHT}>
+        {Array.from({ length: elements }, (_, index) => (
+          <StressShape key={index} index={index} progress={progress} />
+        ))}
+      </Svg>
+      <Text style={styles.label}>{elements} animated shapes</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.cardBackground,
+    borderRadius: 16,
+    marginHorizontal: 16,
+    marginBottom: 16,
+    overflow: 'hidden',
+  },
+  label: {
+    position: 'absolute',
+    top: 8,
+    left: 12,
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+});
+
+export default RenderStressStage;
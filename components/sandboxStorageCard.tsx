@@ -0,0 +1,277 @@
+// components/SandboxStorageCard.tsx
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator, StyleSheet } from 'react-native';
+import { colors } from '../constants/colors';
+import {
+  CleanupPlan,
+  CleanupResult,
+  SandboxRoot,
+  SandboxStorageReport,
+  sandboxStorage,
+} from '../utils/sandboxStorage';
+
+const ROOT_LABELS: Record<SandboxRoot, string> = {
+  document: 'Documents',
+  cache: 'Cache',
+};
+
+const MAX_ROWS = 5;
+
+const formatSize = (bytes: number) => {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+};
+
+const plural = (count: number, word: string, words = `${word}s`) => `${count} ${count === 1 ? word : words}`;
+
+type Busy = 'analyzing' | 'previewing' | 'cleaning' | null;
+
+const SandboxStorageCard: React.FC = () => {
+  const [report, setReport] = useState<SandboxStorageReport | null>(null);
+  const [plan, setPlan] = useState<CleanupPlan | null>(null);
+  const [result, setResult] = useState<CleanupResult | null>(null);
+  const [busy, setBusy] = useState<Busy>(null);
+
+  const run = async <T,>(stage: Busy, task: () => Promise<T>): Promise<T | null> => {
+    setBusy(stage);
+    try {
+      return await task();
+    } catch (error) {
+      console.warn(`Sandbox storage ${stage} failed:`, error);
+      return null;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const analyze = async () => {
+    const next = await run('analyzing', () => sandboxStorage.analyze());
+    if (next) setReport(next);
+  };
+
+  const preview = async () => {
+    setResult(null);
+    const next = await run('previewing', () => sandboxStorage.previewCleanup());
+    if (next) setPlan(next);
+  };
+
+  const clean = async () => {
+    if (!plan) return;
+    const outcome = await run('cleaning', () => sandboxStorage.runCleanup(plan));
+    setPlan(null);
+    if (!outcome) return;
+    setResult(outcome);
+    const next = await run('analyzing', () => sandboxStorage.analyze());
+    if (next) setReport(next);
+  };
+
+  return (
+    <View>
+      <Text style={styles.title}>Phonefit's storage</Text>
+      <Text style={styles.hint}>
+        Only Phonefit's own files and app data are scanned; other apps' data can't be seen from here.
+      </Text>
+
+      {report ? (
+        <>
+          <View style={styles.totals}>
+            <Text style={styles.total}>{formatSize(report.totalBytes)}</Text>
+            <Text style={styles.totalDetail}>
+              {plural(report.fileCount, 'file')}
+              {(Object.keys(ROOT_LABELS) as SandboxRoot[])
+                .map(root => ` · ${ROOT_LABELS[root]} ${formatSize(report.rootBytes[root])}`)
+                .join('')}
+              {` · App data ${formatSize(report.storeBytes)}`}
+            </Text>
+          </View>
+
+          {report.stores.length > 0 && (
+            <>
+              <Text style={styles.groupTitle}>App data (history and settings)</Text>
+              {report.stores.slice(0, MAX_ROWS).map(store => (
+                <View key={store.key} style={styles.row}>
+                  <Text style={styles.rowLabel} numberOfLines={1}>{store.key.replace(/^@/, '')}</Text>
+                  <Text style={styles.rowValue}>{formatSize(store.bytes)}</Text>
+                </View>
+              ))}
+            </>
+          )}
+
+          {report.folders.length > 0 && (
+            <>
+              <Text style={styles.groupTitle}>By folder</Text>
+              {report.folders.slice(0, MAX_ROWS).map(folder => (
+                <View key={`${folder.root}/${folder.name}`} style={styles.row}>
+                  <Text style={styles.rowLabel} numberOfLines={1}>
+                    {ROOT_LABELS[folder.root]}/{folder.name || '(top level)'}
+                  </Text>
+                  <Text style={styles.rowValue}>{formatSize(folder.bytes)}</Text>
+                </View>
+              ))}
+            </>
+          )}
+
+          {report.fileTypes.length > 0 && (
+            <>
+              <Text style={styles.groupTitle}>By file type</Text>
+              {report.fileTypes.slice(0, MAX_ROWS).map(type => (
+                <View key={type.extension} style={styles.row}>
+                  <Text style={styles.rowLabel}>
+                    {type.extension ? `.${type.extension}` : 'No extension'} ({type.fileCount})
+                  </Text>
+                  <Text style={styles.rowValue}>{formatSize(type.bytes)}</Text>
+                </View>
+              ))}
+            </>
+          )}
+
+          {report.truncated && (
+            <Text style={styles.hint}>Stopped after {report.fileCount} files; totals are partial.</Text>
+          )}
+        </>
+      ) : (
+        <TouchableOpacity style={styles.button} onPress={analyze} disabled={busy !== null} activeOpacity={0.7}>
+          {busy === 'analyzing'
+            ? <ActivityIndicator color={colors.primary} />
+            : <Text style={styles.buttonText}>Analyze storage</Text>}
+        </TouchableOpacity>
+      )}
+
+      <View style={styles.cleanup}>
+        <Text style={styles.groupTitle}>Clean up Phonefit caches and old history</Text>
+
+        {plan ? (
+          <>
+            {plan.rules.map(({ rule, count, bytes }) => (
+              <View key={rule.id} style={styles.row}>
+                <Text style={styles.rowLabel}>{rule.label}</Text>
+                <Text style={styles.rowValue}>
+                  {count > 0
+                    ? `${rule.kind === 'folder' ? plural(count, 'file') : plural(count, 'entry', 'entries')}, ${formatSize(bytes)}`
+                    : 'Nothing'}
+                </Text>
+              </View>
+            ))}
+            {plan.rules.some(({ count }) => count > 0) ? (
+              <View style={styles.actions}>
+                <TouchableOpacity onPress={clean} disabled={busy !== null} activeOpacity={0.7}>
+                  <Text style={styles.danger}>
+                    {busy === 'cleaning' ? 'Cleaning…' : `Delete ${formatSize(plan.bytes)}`}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => setPlan(null)} disabled={busy !== null} activeOpacity={0.7}>
+                  <Text style={styles.cancel}>Cancel</Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <Text style={styles.hint}>Nothing to clean up right now.</Text>
+            )}
+          </>
+        ) : (
+          <TouchableOpacity style={styles.button} onPress={preview} disabled={busy !== null} activeOpacity={0.7}>
+            {busy === 'previewing'
+              ? <ActivityIndicator color={colors.primary} />
+              : <Text style={styles.buttonText}>Preview cleanup</Text>}
+          </TouchableOpacity>
+        )}
+
+        {result && (
+          <Text style={styles.result}>
+            Deleted {plural(result.deletedFiles, 'file')} and {plural(result.removedEntries, 'old entry', 'old entries')},
+            freed {formatSize(result.freedBytes)}
+            {result.failedFiles > 0 ? ` (${plural(result.failedFiles, 'file')} couldn't be removed)` : ''}
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 4,
+  },
+  hint: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  totals: {
+    marginBottom: 8,
+  },
+  total: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  totalDetail: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  groupTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: 8,
+    marginBottom: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+    marginBottom: 4,
+  },
+  rowLabel: {
+    flex: 1,
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  rowValue: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: colors.text,
+  },
+  button: {
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: colors.primary + '15',
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  cleanup: {
+    borderTopWidth: 1,
+    borderTopColor: colors.lightGray,
+    marginTop: 12,
+    paddingTop: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 8,
+  },
+  danger: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.error,
+  },
+  cancel: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  result: {
+    fontSize: 13,
+    color: colors.success,
+    marginTop: 8,
+  },
+});
+
+export default SandboxStorageCard;
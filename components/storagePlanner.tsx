@@ -0,0 +1,262 @@
+// components/StoragePlanner.tsx
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors } from '../constants/colors';
+import { MEDIA_CATEGORIES, MediaCategory } from '../constants/mediaProfiles';
+import { countThatFits, planStorage, resolveMediaProfiles } from '../utils/storagePlanner';
+import { userSettings } from '../utils/userSettings';
+
+const IconsComponent = Ionicons as any;
+
+interface StoragePlannerProps {
+  freeBytes: number;
+  totalBytes: number;
+}
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+const formatSize = (bytes: number) =>
+  bytes >= GB ? `${(bytes / GB).toFixed(1)} GB` : `${Math.round(bytes / MB)} MB`;
+
+const StoragePlanner: React.FC<StoragePlannerProps> = ({ freeBytes, totalBytes }) => {
+  const [category, setCategory] = useState<MediaCategory>('photos');
+  const [sizeOverrides, setSizeOverrides] = useState<Record<string, number>>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [queryGB, setQueryGB] = useState('');
+
+  useEffect(() => {
+    userSettings.get().then(settings => setSizeOverrides(settings.mediaProfileSizes ?? {}));
+  }, []);
+
+  const plan = planStorage(freeBytes, totalBytes, resolveMediaProfiles(sizeOverrides));
+  const items = plan.items.filter(item => item.profile.category === category);
+
+  const saveOverrides = async (next: Record<string, number>) => {
+    setSizeOverrides(next);
+    setEditingId(null);
+    await userSettings.update({ mediaProfileSizes: next });
+  };
+
+  const draftMB = parseFloat(draft);
+  const draftValid = Number.isFinite(draftMB) && draftMB > 0;
+
+  const startEditing = (id: string, bytesPerUnit: number) => {
+    setDraft(String(Math.round((bytesPerUnit / MB) * 10) / 10));
+    setEditingId(id);
+  };
+
+  const saveDraft = () => {
+    if (!editingId || !draftValid) return;
+    saveOverrides({ ...sizeOverrides, [editingId]: draftMB * MB });
+  };
+
+  const resetSize = (id: string) => {
+    const { [id]: _removed, ...rest } = sizeOverrides;
+    saveOverrides(rest);
+  };
+
+  const queryValue = parseFloat(queryGB);
+  const queryCount = Number.isFinite(queryValue) && queryValue > 0
+    ? countThatFits(freeBytes, totalBytes, queryValue * GB)
+    : null;
+
+  return (
+    <View>
+      <Text style={styles.title}>What you can store:</Text>
+      <Text style={styles.reserve}>
+        {formatSize(plan.plannableBytes)} to plan with, keeping {formatSize(plan.reserveBytes)} free for updates and caches
+      </Text>
+
+      <View style={styles.categories}>
+        {MEDIA_CATEGORIES.map(({ id, label, icon }) => {
+          const active = id === category;
+          return (
+            <TouchableOpacity
+              key={id}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => { setCategory(id); setEditingId(null); }}
+              activeOpacity={0.7}
+            >
+              <IconsComponent name={icon} size={14} color={active ? '#fff' : colors.textSecondary} />
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {items.map(({ profile, description }) => (
+        <View key={profile.id} style={styles.item}>
+          <View style={styles.itemRow}>
+            <Text style={styles.itemText}>{description}</Text>
+            {editingId !== profile.id && (
+              <TouchableOpacity onPress={() => startEditing(profile.id, profile.bytesPerUnit)} activeOpacity={0.7}>
+                <Text style={styles.itemSize}>
+                  {formatSize(profile.bytesPerUnit)}/{profile.unit}
+                  {sizeOverrides[profile.id] ? ' (yours)' : ''}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {editingId === profile.id && (
+            <View style={styles.editor}>
+              <TextInput
+                style={[styles.input, !draftValid && draft !== '' && styles.inputInvalid]}
+                value={draft}
+                onChangeText={setDraft}
+                keyboardType="decimal-pad"
+                placeholder="MB"
+                autoFocus
+              />
+              <Text style={styles.editorUnit}>MB per {profile.unit}</Text>
+              <TouchableOpacity onPress={saveDraft} disabled={!draftValid} activeOpacity={0.7}>
+                <Text style={[styles.action, !draftValid && styles.actionDisabled]}>Save</Text>
+              </TouchableOpacity>
+              {sizeOverrides[profile.id] !== undefined && (
+                <TouchableOpacity onPress={() => resetSize(profile.id)} activeOpacity={0.7}>
+                  <Text style={styles.action}>Reset</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity onPress={() => setEditingId(null)} activeOpacity={0.7}>
+                <Text style={styles.cancel}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      ))}
+
+      <View style={styles.query}>
+        <Text style={styles.queryLabel}>How many items of</Text>
+        <TextInput
+          style={styles.input}
+          value={queryGB}
+          onChangeText={setQueryGB}
+          keyboardType="decimal-pad"
+          placeholder="50"
+        />
+        <Text style={styles.queryLabel}>GB fit?</Text>
+        {queryCount !== null && (
+          <Text style={styles.queryResult}>{queryCount.toLocaleString()}</Text>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 4,
+  },
+  reserve: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  categories: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: colors.lightGray,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  item: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.lightGray,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  itemText: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.text,
+  },
+  itemSize: {
+    fontSize: 12,
+    color: colors.primary,
+    fontWeight: '500',
+  },
+  editor: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 8,
+  },
+  editorUnit: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  input: {
+    minWidth: 64,
+    borderWidth: 1,
+    borderColor: colors.lightGray,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    fontSize: 14,
+    color: colors.text,
+    backgroundColor: colors.cardBackground,
+  },
+  inputInvalid: {
+    borderColor: colors.error,
+  },
+  action: {
+    fontSize: 14,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  actionDisabled: {
+    color: colors.gray,
+  },
+  cancel: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  query: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  queryLabel: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  queryResult: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.primary,
+  },
+});
+
+export default StoragePlanner;
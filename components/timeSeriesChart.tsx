@@ -0,0 +1,249 @@
+// components/TimeSeriesChart.tsx
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, LayoutChangeEvent } from 'react-native';
+import Svg, { Path, Rect, Line, Circle } from 'react-native-svg';
+import { colors } from '../constants/colors';
+
+export interface ChartPoint {
+  timestamp: number;
+  value: number;
+}
+
+export interface ChartRange {
+  label: string;
+  durationMs: number;
+}
+
+export interface ChartAnnotation {
+  start: number;
+  end: number;
+}
+
+interface TimeSeriesChartProps {
+  points: ChartPoint[];
+  ranges: ChartRange[];
+  defaultRangeIndex?: number;
+  color: string;
+  formatValue: (value: number) => string;
+  minValue?: number;
+  maxValue?: number;
+  annotations?: ChartAnnotation[];
+  annotationLabel?: string;
+  annotationColor?: string;
+  height?: number;
+  emptyText?: string;
+}
+
+const PADDING = { top: 12, right: 8, bottom: 8, left: 8 };
+
+const pad2 = (n: number) => (n < 10 ? `0${n}` : `${n}`);
+
+const formatTick = (timestamp: number, durationMs: number) => {
+  const date = new Date(timestamp);
+  if (durationMs <= 24 * 60 * 60 * 1000) {
+    return `${pad2(date.getHours())}:${pad2(date.getMinutes())}`;
+  }
+  return `${date.getMonth() + 1}/${date.getDate()}`;
+};
+
+const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({
+  points,
+  ranges,
+  defaultRangeIndex = 0,
+  color,
+  formatValue,
+  minValue,
+  maxValue,
+  annotations = [],
+  annotationLabel,
+  annotationColor = colors.warning,
+  height = 140,
+  emptyText = 'Not enough data yet',
+}) => {
+  const [width, setWidth] = useState(0);
+  const [rangeIndex, setRangeIndex] = useState(defaultRangeIndex);
+
+  const range = ranges[rangeIndex] ?? ranges[0];
+  const end = Date.now();
+  const start = end - range.durationMs;
+
+  const visible = points
+    .filter(p => p.timestamp >= start && p.timestamp <= end && !isNaN(p.value))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const values = visible.map(p => p.value);
+  let yMin = minValue ?? Math.min(...values);
+  let yMax = maxValue ?? Math.max(...values);
+  if (!isFinite(yMin) || !isFinite(yMax)) {
+    yMin = 0;
+    yMax = 1;
+  } else if (yMax === yMin) {
+    yMin -= 1;
+    yMax += 1;
+  }
+
+  const plotWidth = Math.max(0, width - PADDING.left - PADDING.right);
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const bottom = PADDING.top + plotHeight;
+
+  const toX = (timestamp: number) =>
+    PADDING.left + ((timestamp - start) / (end - start)) * plotWidth;
+  const toY = (value: number) =>
+    PADDING.top + (1 - (value - yMin) / (yMax - yMin)) * plotHeight;
+
+  const linePath = visible
+    .map((p, i) => `${i === 0 ? 'M' : 'L'} ${toX(p.timestamp).toFixed(1)} ${toY(p.value).toFixed(1)}`)
+    .join(' ');
+
+  const areaPath = visible.length > 1
+    ? `${linePath} L ${toX(visible[visible.length - 1].timestamp).toFixed(1)} ${bottom} ` +
+      `L ${toX(visible[0].timestamp).toFixed(1)} ${bottom} Z`
+    : '';
+
+  const visibleAnnotations = annotations
+    .filter(a => a.end >= start && a.start <= end)
+    .map(a => ({
+      x: toX(Math.max(a.start, start)),
+      width: Math.max(2, toX(Math.min(a.end, end)) - toX(Math.max(a.start, start))),
+    }));
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.rangeRow}>
+        {ranges.map((r, index) => (
+          <TouchableOpacity
+            key={r.label}
+            onPress={() => setRangeIndex(index)}
+            style={[styles.rangeButton, index === rangeIndex && { backgroundColor: color + '20' }]}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.rangeText, index === rangeIndex && { color, fontWeight: '600' }]}>
+              {r.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.valueRow}>
+        <Text style={styles.axisLabel}>{formatValue(yMax)}</Text>
+      </View>
+
+      <View style={{ height }} onLayout={handleLayout}>
+        {width > 0 && visible.length > 0 && (
+          <Svg width={width} height={height}>
+            {visibleAnnotations.map((a, index) => (
+              <Rect
+                key={index}
+                x={a.x}
+                y={PADDING.top}
+                width={a.width}
+                height={plotHeight}
+                fill={annotationColor}
+                fillOpacity={0.15}
+              />
+            ))}
+            <Line
+              x1={PADDING.left}
+              y1={bottom}
+              x2={PADDING.left + plotWidth}
+              y2={bottom}
+              stroke={colors.lightGray}
+              strokeWidth={1}
+            />
+            {areaPath !== '' && <Path d={areaPath} fill={color} fillOpacity={0.12} />}
+            {visible.length > 1 ? (
+              <Path d={linePath} stroke={color} strokeWidth={2} fill="none" strokeLinejoin="round" />
+            ) : (
+              <Circle cx={toX(visible[0].timestamp)} cy={toY(visible[0].value)} r={3} fill={color} />
+            )}
+          </Svg>
+        )}
+        {visible.length === 0 && (
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyText}>{emptyText}</Text>
+          </View>
+        )}
+      </View>
+
+      <View style={styles.valueRow}>
+        <Text style={styles.axisLabel}>{formatValue(yMin)}</Text>
+      </View>
+
+      <View style={styles.timeRow}>
+        <Text style={styles.axisLabel}>{formatTick(start, range.durationMs)}</Text>
+        <Text style={styles.axisLabel}>Now</Text>
+      </View>
+
+      {annotationLabel && visibleAnnotations.length > 0 && (
+        <View style={styles.legend}>
+          <View style={[styles.legendSwatch, { backgroundColor: annotationColor + '40' }]} />
+          <Text style={styles.legendText}>{annotationLabel}</Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 6,
+    marginBottom: 8,
+  },
+  rangeButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  rangeText: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  valueRow: {
+    paddingHorizontal: PADDING.left,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: PADDING.left,
+    marginTop: 4,
+  },
+  axisLabel: {
+    fontSize: 11,
+    color: colors.gray,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  legendSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 3,
+    marginRight: 6,
+  },
+  legendText: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+});
+
+export default TimeSeriesChart;
@@ -0,0 +1,144 @@
+// components/VideoModeGrid.tsx
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { colors } from '../constants/colors';
+import type {
+  VideoFrameRate,
+  VideoLimitingFactor,
+  VideoMode,
+  VideoModeAssessment,
+  VideoResolution,
+} from '../capabilities/videoRecordingCapability';
+
+interface VideoModeGridProps {
+  modes: VideoModeAssessment[];
+  recommendedMode: VideoMode;
+}
+
+const RESOLUTIONS: VideoResolution[] = ['4K', '1080p', '720p'];
+const FRAME_RATES: VideoFrameRate[] = [30, 60];
+
+const FACTOR_LABELS: Record<VideoLimitingFactor, string> = {
+  storage: 'storage',
+  battery: 'battery',
+  thermal: 'heat',
+  writeSpeed: 'write speed',
+  performance: 'processor',
+};
+
+const formatMinutes = (minutes: number) => {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+};
+
+const VideoModeGrid: React.FC<VideoModeGridProps> = ({ modes, recommendedMode }) => {
+  const findMode = (resolution: VideoResolution, fps: VideoFrameRate) =>
+    modes.find(mode => mode.resolution === resolution && mode.fps === fps);
+
+  return (
+    <View style={styles.grid}>
+      <View style={styles.row}>
+        <View style={styles.rowLabel} />
+        {FRAME_RATES.map(fps => (
+          <Text key={fps} style={styles.columnLabel}>{fps} fps</Text>
+        ))}
+      </View>
+
+      {RESOLUTIONS.map(resolution => (
+        <View key={resolution} style={styles.row}>
+          <Text style={styles.rowLabel}>{resolution}</Text>
+          {FRAME_RATES.map(fps => {
+            const mode = findMode(resolution, fps);
+            if (!mode) return <View key={fps} style={styles.cell} />;
+
+            const recommended = recommendedMode.resolution === resolution && recommendedMode.fps === fps;
+            return (
+              <View
+                key={fps}
+                style={[
+                  styles.cell,
+                  !mode.supported && styles.cellUnsupported,
+                  recommended && styles.cellRecommended,
+                ]}
+              >
+                <Text style={[styles.cellMinutes, !mode.supported && styles.cellMinutesUnsupported]}>
+                  {mode.supported ? formatMinutes(mode.minutes) : 'Not supported'}
+                </Text>
+                <Text style={styles.cellFactor}>
+                  {mode.supported ? `limited by ${FACTOR_LABELS[mode.limitingFactor]}` : FACTOR_LABELS[mode.limitingFactor]}
+                </Text>
+                {recommended && <Text style={styles.recommendedLabel}>Recommended</Text>}
+              </View>
+            );
+          })}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  grid: {
+    backgroundColor: colors.cardBackground,
+    borderRadius: 16,
+    padding: 12,
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'stretch',
+    gap: 8,
+  },
+  rowLabel: {
+    width: 52,
+    alignSelf: 'center',
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  columnLabel: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  cell: {
+    flex: 1,
+    borderRadius: 10,
+    padding: 10,
+    backgroundColor: colors.background,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  cellUnsupported: {
+    backgroundColor: colors.lightGray + '60',
+  },
+  cellRecommended: {
+    borderColor: colors.primary,
+    backgroundColor: colors.primary + '10',
+  },
+  cellMinutes: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  cellMinutesUnsupported: {
+    color: colors.gray,
+  },
+  cellFactor: {
+    fontSize: 11,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  recommendedLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.primary,
+    marginTop: 4,
+  },
+});
+
+export default VideoModeGrid;
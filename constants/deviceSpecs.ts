@@ -0,0 +1,110 @@
+// Offline device specs by brand/model, used when the platform doesn't report a value.
+// Bump the version whenever entries change so derived results can be told apart.
+
+export type SpecSensor = 'accelerometer' | 'gyroscope' | 'magnetometer' | 'barometer' | 'pedometer';
+
+export interface DeviceSpec {
+  model: string;
+  aliases?: string[];            // Model codes reported by some devices (e.g. SM-S911)
+  soc: string;
+  socVariants?: string[];        // Regional alternatives (Exynos vs Snapdragon)
+  cpuCores: number;
+  ramGB: number[];               // Sold variants, smallest first
+  storageGB: number[];           // Sold variants in decimal GB as marketed, smallest first
+  refreshRate: number;           // Peak Hz
+  batteryMah: number;
+  sensors: SpecSensor[];
+}
+
+const ALL_SENSORS: SpecSensor[] = ['accelerometer', 'gyroscope', 'magnetometer', 'barometer', 'pedometer'];
+const NO_BAROMETER: SpecSensor[] = ['accelerometer', 'gyroscope', 'magnetometer', 'pedometer'];
+// Budget models that ship without a gyroscope
+const NO_GYROSCOPE: SpecSensor[] = ['accelerometer', 'magnetometer', 'pedometer'];
+
+// Device.brand values that share another brand's entries
+export const BRAND_ALIASES: Record<string, string> = {
+  redmi: 'xiaomi',
+  poco: 'xiaomi',
+};
+
+export const DEVICE_SPEC_DB: {
+  version: number;
+  brands: Record<string, DeviceSpec[]>;
+} = {
+  version: 2,
+  brands: {
+    apple: [
+      { model: 'iPhone SE (2nd generation)', soc: 'A13 Bionic', cpuCores: 6, ramGB: [3], storageGB: [64, 128, 256], refreshRate: 60, batteryMah: 1821, sensors: ALL_SENSORS },
+      { model: 'iPhone SE (3rd generation)', soc: 'A15 Bionic', cpuCores: 6, ramGB: [4], storageGB: [64, 128, 256], refreshRate: 60, batteryMah: 2018, sensors: ALL_SENSORS },
+      { model: 'iPhone 11', soc: 'A13 Bionic', cpuCores: 6, ramGB: [4], storageGB: [64, 128, 256], refreshRate: 60, batteryMah: 3110, sensors: ALL_SENSORS },
+      { model: 'iPhone 11 Pro', soc: 'A13 Bionic', cpuCores: 6, ramGB: [4], storageGB: [64, 256, 512], refreshRate: 60, batteryMah: 3046, sensors: ALL_SENSORS },
+      { model: 'iPhone 11 Pro Max', soc: 'A13 Bionic', cpuCores: 6, ramGB: [4], storageGB: [64, 256, 512], refreshRate: 60, batteryMah: 3969, sensors: ALL_SENSORS },
+      { model: 'iPhone 12 mini', soc: 'A14 Bionic', cpuCores: 6, ramGB: [4], storageGB: [64, 128, 256], refreshRate: 60, batteryMah: 2227, sensors: ALL_SENSORS },
+      { model: 'iPhone 12', soc: 'A14 Bionic', cpuCores: 6, ramGB: [4], storageGB: [64, 128, 256], refreshRate: 60, batteryMah: 2815, sensors: ALL_SENSORS },
+      { model: 'iPhone 12 Pro', soc: 'A14 Bionic', cpuCores: 6, ramGB: [6], storageGB: [128, 256, 512], refreshRate: 60, batteryMah: 2815, sensors: ALL_SENSORS },
+      { model: 'iPhone 12 Pro Max', soc: 'A14 Bionic', cpuCores: 6, ramGB: [6], storageGB: [128, 256, 512], refreshRate: 60, batteryMah: 3687, sensors: ALL_SENSORS },
+      { model: 'iPhone 13 mini', soc: 'A15 Bionic', cpuCores: 6, ramGB: [4], storageGB: [128, 256, 512], refreshRate: 60, batteryMah: 2406, sensors: ALL_SENSORS },
+      { model: 'iPhone 13', soc: 'A15 Bionic', cpuCores: 6, ramGB: [4], storageGB: [128, 256, 512], refreshRate: 60, batteryMah: 3227, sensors: ALL_SENSORS },
+      { model: 'iPhone 13 Pro', soc: 'A15 Bionic', cpuCores: 6, ramGB: [6], storageGB: [128, 256, 512, 1000], refreshRate: 120, batteryMah: 3095, sensors: ALL_SENSORS },
+      { model: 'iPhone 13 Pro Max', soc: 'A15 Bionic', cpuCores: 6, ramGB: [6], storageGB: [128, 256, 512, 1000], refreshRate: 120, batteryMah: 4352, sensors: ALL_SENSORS },
+      { model: 'iPhone 14', soc: 'A15 Bionic', cpuCores: 6, ramGB: [6], storageGB: [128, 256, 512], refreshRate: 60, batteryMah: 3279, sensors: ALL_SENSORS },
+      { model: 'iPhone 14 Plus', soc: 'A15 Bionic', cpuCores: 6, ramGB: [6], storageGB: [128, 256, 512], refreshRate: 60, batteryMah: 4325, sensors: ALL_SENSORS },
+      { model: 'iPhone 14 Pro', soc: 'A16 Bionic', cpuCores: 6, ramGB: [6], storageGB: [128, 256, 512, 1000], refreshRate: 120, batteryMah: 3200, sensors: ALL_SENSORS },
+      { model: 'iPhone 14 Pro Max', soc: 'A16 Bionic', cpuCores: 6, ramGB: [6], storageGB: [128, 256, 512, 1000], refreshRate: 120, batteryMah: 4323, sensors: ALL_SENSORS },
+      { model: 'iPhone 15', soc: 'A16 Bionic', cpuCores: 6, ramGB: [6], storageGB: [128, 256, 512], refreshRate: 60, batteryMah: 3349, sensors: ALL_SENSORS },
+      { model: 'iPhone 15 Plus', soc: 'A16 Bionic', cpuCores: 6, ramGB: [6], storageGB: [128, 256, 512], refreshRate: 60, batteryMah: 4383, sensors: ALL_SENSORS },
+      { model: 'iPhone 15 Pro', soc: 'A17 Pro', cpuCores: 6, ramGB: [8], storageGB: [128, 256, 512, 1000], refreshRate: 120, batteryMah: 3274, sensors: ALL_SENSORS },
+      { model: 'iPhone 15 Pro Max', soc: 'A17 Pro', cpuCores: 6, ramGB: [8], storageGB: [256, 512, 1000], refreshRate: 120, batteryMah: 4422, sensors: ALL_SENSORS },
+    ],
+    google: [
+      { model: 'Pixel 6', soc: 'Google Tensor', cpuCores: 8, ramGB: [8], storageGB: [128, 256], refreshRate: 90, batteryMah: 4614, sensors: ALL_SENSORS },
+      { model: 'Pixel 6 Pro', soc: 'Google Tensor', cpuCores: 8, ramGB: [12], storageGB: [128, 256, 512], refreshRate: 120, batteryMah: 5003, sensors: ALL_SENSORS },
+      { model: 'Pixel 6a', soc: 'Google Tensor', cpuCores: 8, ramGB: [6], storageGB: [128], refreshRate: 60, batteryMah: 4410, sensors: ALL_SENSORS },
+      { model: 'Pixel 7', soc: 'Google Tensor G2', cpuCores: 8, ramGB: [8], storageGB: [128, 256], refreshRate: 90, batteryMah: 4355, sensors: ALL_SENSORS },
+      { model: 'Pixel 7 Pro', soc: 'Google Tensor G2', cpuCores: 8, ramGB: [12], storageGB: [128, 256, 512], refreshRate: 120, batteryMah: 5000, sensors: ALL_SENSORS },
+      { model: 'Pixel 7a', soc: 'Google Tensor G2', cpuCores: 8, ramGB: [8], storageGB: [128], refreshRate: 90, batteryMah: 4385, sensors: ALL_SENSORS },
+      { model: 'Pixel 8', soc: 'Google Tensor G3', cpuCores: 9, ramGB: [8], storageGB: [128, 256], refreshRate: 120, batteryMah: 4575, sensors: ALL_SENSORS },
+      { model: 'Pixel 8 Pro', soc: 'Google Tensor G3', cpuCores: 9, ramGB: [12], storageGB: [128, 256, 512, 1000], refreshRate: 120, batteryMah: 5050, sensors: ALL_SENSORS },
+      { model: 'Pixel 8a', soc: 'Google Tensor G3', cpuCores: 9, ramGB: [8], storageGB: [128, 256], refreshRate: 120, batteryMah: 4492, sensors: ALL_SENSORS },
+    ],
+    samsung: [
+      { model: 'Galaxy S21', aliases: ['SM-G991'], soc: 'Exynos 2100', socVariants: ['Snapdragon 888'], cpuCores: 8, ramGB: [8], storageGB: [128, 256], refreshRate: 120, batteryMah: 4000, sensors: ALL_SENSORS },
+      { model: 'Galaxy S21+', aliases: ['SM-G996'], soc: 'Exynos 2100', socVariants: ['Snapdragon 888'], cpuCores: 8, ramGB: [8], storageGB: [128, 256], refreshRate: 120, batteryMah: 4800, sensors: ALL_SENSORS },
+      { model: 'Galaxy S21 Ultra', aliases: ['SM-G998'], soc: 'Exynos 2100', socVariants: ['Snapdragon 888'], cpuCores: 8, ramGB: [12, 16], storageGB: [128, 256, 512], refreshRate: 120, batteryMah: 5000, sensors: ALL_SENSORS },
+      { model: 'Galaxy S21 FE', aliases: ['SM-G990'], soc: 'Snapdragon 888', socVariants: ['Exynos 2100'], cpuCores: 8, ramGB: [6, 8], storageGB: [128, 256], refreshRate: 120, batteryMah: 4500, sensors: ALL_SENSORS },
+      { model: 'Galaxy S22', aliases: ['SM-S901'], soc: 'Exynos 2200', socVariants: ['Snapdragon 8 Gen 1'], cpuCores: 8, ramGB: [8], storageGB: [128, 256], refreshRate: 120, batteryMah: 3700, sensors: ALL_SENSORS },
+      { model: 'Galaxy S22+', aliases: ['SM-S906'], soc: 'Exynos 2200', socVariants: ['Snapdragon 8 Gen 1'], cpuCores: 8, ramGB: [8], storageGB: [128, 256], refreshRate: 120, batteryMah: 4500, sensors: ALL_SENSORS },
+      { model: 'Galaxy S22 Ultra', aliases: ['SM-S908'], soc: 'Exynos 2200', socVariants: ['Snapdragon 8 Gen 1'], cpuCores: 8, ramGB: [8, 12], storageGB: [128, 256, 512, 1000], refreshRate: 120, batteryMah: 5000, sensors: ALL_SENSORS },
+      { model: 'Galaxy S23', aliases: ['SM-S911'], soc: 'Snapdragon 8 Gen 2', cpuCores: 8, ramGB: [8], storageGB: [128, 256, 512], refreshRate: 120, batteryMah: 3900, sensors: ALL_SENSORS },
+      { model: 'Galaxy S23+', aliases: ['SM-S916'], soc: 'Snapdragon 8 Gen 2', cpuCores: 8, ramGB: [8], storageGB: [256, 512], refreshRate: 120, batteryMah: 4700, sensors: ALL_SENSORS },
+      { model: 'Galaxy S23 Ultra', aliases: ['SM-S918'], soc: 'Snapdragon 8 Gen 2', cpuCores: 8, ramGB: [8, 12], storageGB: [256, 512, 1000], refreshRate: 120, batteryMah: 5000, sensors: ALL_SENSORS },
+      { model: 'Galaxy S23 FE', aliases: ['SM-S711'], soc: 'Exynos 2200', socVariants: ['Snapdragon 8 Gen 1'], cpuCores: 8, ramGB: [8], storageGB: [128, 256, 512], refreshRate: 120, batteryMah: 4500, sensors: ALL_SENSORS },
+      { model: 'Galaxy S24', aliases: ['SM-S921'], soc: 'Exynos 2400', socVariants: ['Snapdragon 8 Gen 3'], cpuCores: 10, ramGB: [8], storageGB: [128, 256, 512], refreshRate: 120, batteryMah: 4000, sensors: ALL_SENSORS },
+      { model: 'Galaxy S24+', aliases: ['SM-S926'], soc: 'Exynos 2400', socVariants: ['Snapdragon 8 Gen 3'], cpuCores: 10, ramGB: [12], storageGB: [256, 512], refreshRate: 120, batteryMah: 4900, sensors: ALL_SENSORS },
+      { model: 'Galaxy S24 Ultra', aliases: ['SM-S928'], soc: 'Snapdragon 8 Gen 3', cpuCores: 8, ramGB: [12], storageGB: [256, 512, 1000], refreshRate: 120, batteryMah: 5000, sensors: ALL_SENSORS },
+      { model: 'Galaxy Z Flip5', aliases: ['SM-F731'], soc: 'Snapdragon 8 Gen 2', cpuCores: 8, ramGB: [8], storageGB: [256, 512], refreshRate: 120, batteryMah: 3700, sensors: ALL_SENSORS },
+      { model: 'Galaxy Z Fold5', aliases: ['SM-F946'], soc: 'Snapdragon 8 Gen 2', cpuCores: 8, ramGB: [12], storageGB: [256, 512, 1000], refreshRate: 120, batteryMah: 4400, sensors: ALL_SENSORS },
+      { model: 'Galaxy A14', aliases: ['SM-A145'], soc: 'Helio G80', socVariants: ['Exynos 850'], cpuCores: 8, ramGB: [4, 6], storageGB: [64, 128], refreshRate: 60, batteryMah: 5000, sensors: NO_GYROSCOPE },
+      { model: 'Galaxy A14 5G', aliases: ['SM-A146'], soc: 'Dimensity 700', socVariants: ['Exynos 1330'], cpuCores: 8, ramGB: [4, 6, 8], storageGB: [64, 128], refreshRate: 90, batteryMah: 5000, sensors: NO_GYROSCOPE },
+      { model: 'Galaxy A15', aliases: ['SM-A155'], soc: 'Helio G99', cpuCores: 8, ramGB: [4, 6, 8], storageGB: [128, 256], refreshRate: 90, batteryMah: 5000, sensors: NO_GYROSCOPE },
+      { model: 'Galaxy A25', aliases: ['SM-A256'], soc: 'Exynos 1280', cpuCores: 8, ramGB: [6, 8], storageGB: [128, 256], refreshRate: 120, batteryMah: 5000, sensors: NO_BAROMETER },
+      { model: 'Galaxy A34', aliases: ['SM-A346'], soc: 'Dimensity 1080', cpuCores: 8, ramGB: [6, 8], storageGB: [128, 256], refreshRate: 120, batteryMah: 5000, sensors: NO_BAROMETER },
+      { model: 'Galaxy A54', aliases: ['SM-A546'], soc: 'Exynos 1380', cpuCores: 8, ramGB: [6, 8], storageGB: [128, 256], refreshRate: 120, batteryMah: 5000, sensors: NO_BAROMETER },
+      { model: 'Galaxy A55', aliases: ['SM-A556'], soc: 'Exynos 1480', cpuCores: 8, ramGB: [8, 12], storageGB: [128, 256], refreshRate: 120, batteryMah: 5000, sensors: NO_BAROMETER },
+    ],
+    oneplus: [
+      { model: 'OnePlus 9', aliases: ['LE2113', 'LE2115'], soc: 'Snapdragon 888', cpuCores: 8, ramGB: [8, 12], storageGB: [128, 256], refreshRate: 120, batteryMah: 4500, sensors: NO_BAROMETER },
+      { model: 'OnePlus 9 Pro', aliases: ['LE2123', 'LE2125'], soc: 'Snapdragon 888', cpuCores: 8, ramGB: [8, 12], storageGB: [128, 256], refreshRate: 120, batteryMah: 4500, sensors: NO_BAROMETER },
+      { model: 'OnePlus 10 Pro', aliases: ['NE2213', 'NE2215'], soc: 'Snapdragon 8 Gen 1', cpuCores: 8, ramGB: [8, 12], storageGB: [128, 256, 512], refreshRate: 120, batteryMah: 5000, sensors: NO_BAROMETER },
+      { model: 'OnePlus 11', aliases: ['CPH2449', 'CPH2451'], soc: 'Snapdragon 8 Gen 2', cpuCores: 8, ramGB: [8, 12, 16], storageGB: [128, 256, 512], refreshRate: 120, batteryMah: 5000, sensors: NO_BAROMETER },
+      { model: 'OnePlus 12', aliases: ['CPH2573', 'CPH2581'], soc: 'Snapdragon 8 Gen 3', cpuCores: 8, ramGB: [12, 16], storageGB: [256, 512], refreshRate: 120, batteryMah: 5400, sensors: NO_BAROMETER },
+      { model: 'OnePlus Nord CE 3 Lite', aliases: ['CPH2465', 'CPH2467'], soc: 'Snapdragon 695', cpuCores: 8, ramGB: [8], storageGB: [128, 256], refreshRate: 120, batteryMah: 5000, sensors: NO_GYROSCOPE },
+    ],
+    xiaomi: [
+      { model: 'Redmi Note 12', aliases: ['23021RAAEG', '23028RA60L'], soc: 'Snapdragon 685', cpuCores: 8, ramGB: [4, 6, 8], storageGB: [64, 128, 256], refreshRate: 120, batteryMah: 5000, sensors: NO_GYROSCOPE },
+      { model: 'Redmi Note 13 Pro 5G', aliases: ['2312DRA50G'], soc: 'Snapdragon 7s Gen 2', cpuCores: 8, ramGB: [8, 12], storageGB: [128, 256, 512], refreshRate: 120, batteryMah: 5100, sensors: NO_BAROMETER },
+      { model: 'Xiaomi 13', aliases: ['2211133G'], soc: 'Snapdragon 8 Gen 2', cpuCores: 8, ramGB: [8, 12], storageGB: [128, 256, 512], refreshRate: 120, batteryMah: 4500, sensors: NO_BAROMETER },
+      { model: 'Xiaomi 14', aliases: ['23127PN0CG'], soc: 'Snapdragon 8 Gen 3', cpuCores: 8, ramGB: [8, 12, 16], storageGB: [256, 512], refreshRate: 120, batteryMah: 4610, sensors: NO_BAROMETER },
+    ],
+  },
+};
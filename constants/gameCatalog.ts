@@ -0,0 +1,64 @@
+// Requirements of popular mobile games, from store listings and publisher guidance.
+// Bump the version whenever entries change so derived results can be told apart.
+
+export type GamePlatform = 'android' | 'ios';
+
+export type GameGenre =
+  | 'Action RPG'
+  | 'Shooter'
+  | 'Racing'
+  | 'Sandbox'
+  | 'Strategy'
+  | 'MOBA'
+  | 'Puzzle'
+  | 'Arcade'
+  | 'Sports'
+  | 'AR'
+  | 'Casual';
+
+export interface GameRequirements {
+  title: string;
+  genre: GameGenre;
+  platforms: GamePlatform[];
+  installGB: number;             // App plus first-run downloads
+  minRamGB: number;
+  recommendedRamGB: number;
+  minAndroidApi?: number;
+  minIOS?: number;               // Major version
+  minClass: number;              // Performance class 1-5, same scale as the SoC table
+  recommendedClass: number;      // High settings at a steady frame rate
+  maxClass: number;              // Max settings
+}
+
+const BOTH: GamePlatform[] = ['android', 'ios'];
+
+export const GAME_CATALOG: {
+  version: number;
+  games: GameRequirements[];
+} = {
+  version: 1,
+  games: [
+    { title: 'Genshin Impact', genre: 'Action RPG', platforms: BOTH, installGB: 30, minRamGB: 4, recommendedRamGB: 6, minAndroidApi: 26, minIOS: 12, minClass: 3, recommendedClass: 4, maxClass: 5 },
+    { title: 'Honkai: Star Rail', genre: 'Action RPG', platforms: BOTH, installGB: 20, minRamGB: 4, recommendedRamGB: 6, minAndroidApi: 26, minIOS: 12, minClass: 3, recommendedClass: 4, maxClass: 5 },
+    { title: 'Zenless Zone Zero', genre: 'Action RPG', platforms: BOTH, installGB: 25, minRamGB: 6, recommendedRamGB: 8, minAndroidApi: 28, minIOS: 14, minClass: 3, recommendedClass: 4, maxClass: 5 },
+    { title: 'Wuthering Waves', genre: 'Action RPG', platforms: BOTH, installGB: 25, minRamGB: 6, recommendedRamGB: 8, minAndroidApi: 26, minIOS: 15, minClass: 3, recommendedClass: 4, maxClass: 5 },
+    { title: 'Diablo Immortal', genre: 'Action RPG', platforms: BOTH, installGB: 12, minRamGB: 4, recommendedRamGB: 6, minAndroidApi: 26, minIOS: 12, minClass: 2, recommendedClass: 4, maxClass: 5 },
+    { title: 'Resident Evil 4', genre: 'Action RPG', platforms: ['ios'], installGB: 20, minRamGB: 8, recommendedRamGB: 8, minIOS: 17, minClass: 5, recommendedClass: 5, maxClass: 5 },
+    { title: 'Call of Duty: Mobile', genre: 'Shooter', platforms: BOTH, installGB: 8, minRamGB: 3, recommendedRamGB: 4, minAndroidApi: 24, minIOS: 12, minClass: 2, recommendedClass: 3, maxClass: 5 },
+    { title: 'PUBG Mobile', genre: 'Shooter', platforms: BOTH, installGB: 4, minRamGB: 2, recommendedRamGB: 4, minAndroidApi: 24, minIOS: 11, minClass: 1, recommendedClass: 3, maxClass: 5 },
+    { title: 'Free Fire', genre: 'Shooter', platforms: BOTH, installGB: 1, minRamGB: 1, recommendedRamGB: 2, minAndroidApi: 21, minIOS: 11, minClass: 1, recommendedClass: 1, maxClass: 3 },
+    { title: 'Asphalt Legends Unite', genre: 'Racing', platforms: BOTH, installGB: 3, minRamGB: 3, recommendedRamGB: 4, minAndroidApi: 26, minIOS: 14, minClass: 2, recommendedClass: 3, maxClass: 5 },
+    { title: 'Minecraft', genre: 'Sandbox', platforms: BOTH, installGB: 1, minRamGB: 2, recommendedRamGB: 4, minAndroidApi: 26, minIOS: 14, minClass: 1, recommendedClass: 2, maxClass: 4 },
+    { title: 'Roblox', genre: 'Sandbox', platforms: BOTH, installGB: 1, minRamGB: 2, recommendedRamGB: 4, minAndroidApi: 24, minIOS: 13, minClass: 1, recommendedClass: 2, maxClass: 4 },
+    { title: 'Mobile Legends: Bang Bang', genre: 'MOBA', platforms: BOTH, installGB: 3, minRamGB: 2, recommendedRamGB: 4, minAndroidApi: 21, minIOS: 10, minClass: 1, recommendedClass: 2, maxClass: 4 },
+    { title: 'League of Legends: Wild Rift', genre: 'MOBA', platforms: BOTH, installGB: 3, minRamGB: 2, recommendedRamGB: 4, minAndroidApi: 23, minIOS: 11, minClass: 2, recommendedClass: 3, maxClass: 4 },
+    { title: 'Clash of Clans', genre: 'Strategy', platforms: BOTH, installGB: 0.5, minRamGB: 1, recommendedRamGB: 2, minAndroidApi: 24, minIOS: 13, minClass: 1, recommendedClass: 1, maxClass: 2 },
+    { title: 'Clash Royale', genre: 'Strategy', platforms: BOTH, installGB: 0.5, minRamGB: 1, recommendedRamGB: 2, minAndroidApi: 24, minIOS: 13, minClass: 1, recommendedClass: 1, maxClass: 2 },
+    { title: 'EA SPORTS FC Mobile', genre: 'Sports', platforms: BOTH, installGB: 2, minRamGB: 3, recommendedRamGB: 4, minAndroidApi: 24, minIOS: 13, minClass: 2, recommendedClass: 3, maxClass: 4 },
+    { title: 'Pokémon GO', genre: 'AR', platforms: BOTH, installGB: 0.5, minRamGB: 2, recommendedRamGB: 4, minAndroidApi: 26, minIOS: 15, minClass: 1, recommendedClass: 2, maxClass: 3 },
+    { title: 'Subway Surfers', genre: 'Arcade', platforms: BOTH, installGB: 0.4, minRamGB: 1, recommendedRamGB: 2, minAndroidApi: 21, minIOS: 12, minClass: 1, recommendedClass: 1, maxClass: 2 },
+    { title: 'Candy Crush Saga', genre: 'Puzzle', platforms: BOTH, installGB: 0.3, minRamGB: 1, recommendedRamGB: 2, minAndroidApi: 21, minIOS: 13, minClass: 1, recommendedClass: 1, maxClass: 1 },
+    { title: 'Among Us', genre: 'Casual', platforms: BOTH, installGB: 0.2, minRamGB: 1, recommendedRamGB: 2, minAndroidApi: 21, minIOS: 12, minClass: 1, recommendedClass: 1, maxClass: 1 },
+    { title: 'Stardew Valley', genre: 'Casual', platforms: BOTH, installGB: 0.3, minRamGB: 2, recommendedRamGB: 3, minAndroidApi: 21, minIOS: 12, minClass: 1, recommendedClass: 1, maxClass: 2 },
+  ],
+};
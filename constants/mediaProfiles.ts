@@ -0,0 +1,59 @@
+// Typical sizes of the things people store, used by the storage planner.
+// Users can override any size; ids are the keys those overrides are stored under.
+
+import { VIDEO_MODES } from './videoModes';
+
+export type MediaCategory = 'photos' | 'video' | 'music' | 'maps' | 'apps';
+
+export type MediaUnit = 'photo' | 'minute' | 'hour' | 'region' | 'app' | 'game' | 'movie';
+
+export interface MediaProfile {
+  id: string;
+  category: MediaCategory;
+  label: string;
+  unit: MediaUnit;
+  bytesPerUnit: number;
+}
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+export const MEDIA_CATEGORIES: { id: MediaCategory; label: string; icon: string }[] = [
+  { id: 'photos', label: 'Photos', icon: 'camera-outline' },
+  { id: 'video', label: 'Video', icon: 'videocam-outline' },
+  { id: 'music', label: 'Music', icon: 'musical-notes-outline' },
+  { id: 'maps', label: 'Maps', icon: 'map-outline' },
+  { id: 'apps', label: 'Apps & Games', icon: 'apps-outline' },
+];
+
+// One profile per recording mode, sized from the camera bitrate
+const VIDEO_RECORDING_PROFILES: MediaProfile[] = VIDEO_MODES.map(mode => ({
+  id: `video-${mode.resolution.toLowerCase()}${mode.fps}`,
+  category: 'video',
+  label: `${mode.resolution} ${mode.fps}fps`,
+  unit: 'minute',
+  bytesPerUnit: mode.bitrateMBps * 60 * MB,
+}));
+
+export const DEFAULT_MEDIA_PROFILES: MediaProfile[] = [
+  { id: 'photo-heic', category: 'photos', label: 'HEIC photo (12 MP)', unit: 'photo', bytesPerUnit: 1.8 * MB },
+  { id: 'photo-jpeg', category: 'photos', label: 'JPEG photo (12 MP)', unit: 'photo', bytesPerUnit: 3.5 * MB },
+  { id: 'photo-jpeg-50mp', category: 'photos', label: 'JPEG photo (50 MP)', unit: 'photo', bytesPerUnit: 12 * MB },
+  { id: 'photo-raw', category: 'photos', label: 'RAW photo (48 MP)', unit: 'photo', bytesPerUnit: 75 * MB },
+
+  ...VIDEO_RECORDING_PROFILES,
+  { id: 'movie-hd', category: 'video', label: 'HD movie download', unit: 'movie', bytesPerUnit: 1.5 * GB },
+  { id: 'movie-4k', category: 'video', label: '4K movie download', unit: 'movie', bytesPerUnit: 7 * GB },
+
+  { id: 'music-128', category: 'music', label: 'Streaming, normal (128 kbps)', unit: 'hour', bytesPerUnit: 58 * MB },
+  { id: 'music-320', category: 'music', label: 'Streaming, high (320 kbps)', unit: 'hour', bytesPerUnit: 144 * MB },
+  { id: 'music-lossless', category: 'music', label: 'Lossless (CD quality)', unit: 'hour', bytesPerUnit: 400 * MB },
+
+  { id: 'maps-city', category: 'maps', label: 'Offline map, city', unit: 'region', bytesPerUnit: 150 * MB },
+  { id: 'maps-country', category: 'maps', label: 'Offline map, large country', unit: 'region', bytesPerUnit: 1.5 * GB },
+
+  { id: 'app-average', category: 'apps', label: 'Average app', unit: 'app', bytesPerUnit: 100 * MB },
+  { id: 'app-social', category: 'apps', label: 'Social app with cache', unit: 'app', bytesPerUnit: 1 * GB },
+  { id: 'game-mobile', category: 'apps', label: 'Mobile game', unit: 'game', bytesPerUnit: 4 * GB },
+  { id: 'game-large', category: 'apps', label: 'Large game', unit: 'game', bytesPerUnit: 50 * GB },
+];
@@ -0,0 +1,70 @@
+// Performance classes for the SoCs named in the spec database.
+// Bump the version whenever entries change so derived results can be told apart.
+
+export interface SocCores {
+  prime: number;                 // Single top-clocked core(s)
+  performance: number;           // Big cores
+  efficiency: number;            // LITTLE cores
+}
+
+export interface SocClassEntry {
+  name: string;                  // Same spelling as DeviceSpec.soc
+  aliases?: string[];            // Android Build.SOC_MODEL / HARDWARE / BOARD values
+  cpuClass: number;              // 1 (entry level) - 5 (current flagship)
+  gpuClass: number;              // 1 (entry level) - 5 (current flagship)
+  processNm: number;
+  cores: SocCores;
+}
+
+export const SOC_CLASS_LABELS: Record<number, string> = {
+  5: 'flagship',
+  4: 'high-end',
+  3: 'upper mid-range',
+  2: 'mid-range',
+  1: 'entry-level',
+};
+
+export const SOC_CLASS_TABLE: {
+  version: number;
+  socs: SocClassEntry[];
+} = {
+  version: 1,
+  socs: [
+    // Apple
+    { name: 'A13 Bionic', cpuClass: 4, gpuClass: 3, processNm: 7, cores: { prime: 0, performance: 2, efficiency: 4 } },
+    { name: 'A14 Bionic', cpuClass: 4, gpuClass: 4, processNm: 5, cores: { prime: 0, performance: 2, efficiency: 4 } },
+    { name: 'A15 Bionic', cpuClass: 5, gpuClass: 4, processNm: 5, cores: { prime: 0, performance: 2, efficiency: 4 } },
+    { name: 'A16 Bionic', cpuClass: 5, gpuClass: 4, processNm: 4, cores: { prime: 0, performance: 2, efficiency: 4 } },
+    { name: 'A17 Pro', cpuClass: 5, gpuClass: 5, processNm: 3, cores: { prime: 0, performance: 2, efficiency: 4 } },
+
+    // Google
+    { name: 'Google Tensor', aliases: ['gs101', 'oriole', 'raven'], cpuClass: 4, gpuClass: 4, processNm: 5, cores: { prime: 2, performance: 2, efficiency: 4 } },
+    { name: 'Google Tensor G2', aliases: ['gs201', 'panther', 'cheetah', 'lynx'], cpuClass: 4, gpuClass: 4, processNm: 5, cores: { prime: 2, performance: 2, efficiency: 4 } },
+    { name: 'Google Tensor G3', aliases: ['zuma', 'shiba', 'husky'], cpuClass: 4, gpuClass: 4, processNm: 4, cores: { prime: 1, performance: 4, efficiency: 4 } },
+
+    // Qualcomm
+    { name: 'Snapdragon 685', aliases: ['SM6225', 'bengal'], cpuClass: 2, gpuClass: 1, processNm: 6, cores: { prime: 0, performance: 4, efficiency: 4 } },
+    { name: 'Snapdragon 695', aliases: ['SM6375', 'holi'], cpuClass: 2, gpuClass: 2, processNm: 6, cores: { prime: 0, performance: 2, efficiency: 6 } },
+    { name: 'Snapdragon 7s Gen 2', aliases: ['SM7435', 'parrot'], cpuClass: 3, gpuClass: 2, processNm: 4, cores: { prime: 0, performance: 4, efficiency: 4 } },
+    { name: 'Snapdragon 888', aliases: ['SM8350', 'lahaina'], cpuClass: 4, gpuClass: 4, processNm: 5, cores: { prime: 1, performance: 3, efficiency: 4 } },
+    { name: 'Snapdragon 8 Gen 1', aliases: ['SM8450', 'taro'], cpuClass: 4, gpuClass: 4, processNm: 4, cores: { prime: 1, performance: 3, efficiency: 4 } },
+    { name: 'Snapdragon 8 Gen 2', aliases: ['SM8550', 'kalama'], cpuClass: 5, gpuClass: 5, processNm: 4, cores: { prime: 1, performance: 4, efficiency: 3 } },
+    { name: 'Snapdragon 8 Gen 3', aliases: ['SM8650', 'pineapple'], cpuClass: 5, gpuClass: 5, processNm: 4, cores: { prime: 1, performance: 5, efficiency: 2 } },
+
+    // Samsung
+    { name: 'Exynos 850', aliases: ['s5e3830', 'exynos850'], cpuClass: 1, gpuClass: 1, processNm: 8, cores: { prime: 0, performance: 0, efficiency: 8 } },
+    { name: 'Exynos 1280', aliases: ['s5e8825', 'exynos1280'], cpuClass: 2, gpuClass: 2, processNm: 5, cores: { prime: 0, performance: 2, efficiency: 6 } },
+    { name: 'Exynos 1330', aliases: ['s5e8535', 'exynos1330'], cpuClass: 2, gpuClass: 2, processNm: 5, cores: { prime: 0, performance: 2, efficiency: 6 } },
+    { name: 'Exynos 1380', aliases: ['s5e8835', 'exynos1380'], cpuClass: 3, gpuClass: 3, processNm: 5, cores: { prime: 0, performance: 4, efficiency: 4 } },
+    { name: 'Exynos 1480', aliases: ['s5e8845', 'exynos1480'], cpuClass: 3, gpuClass: 3, processNm: 4, cores: { prime: 0, performance: 4, efficiency: 4 } },
+    { name: 'Exynos 2100', aliases: ['s5e9840', 'exynos2100'], cpuClass: 4, gpuClass: 3, processNm: 5, cores: { prime: 1, performance: 3, efficiency: 4 } },
+    { name: 'Exynos 2200', aliases: ['s5e9925', 'exynos2200'], cpuClass: 4, gpuClass: 4, processNm: 4, cores: { prime: 1, performance: 3, efficiency: 4 } },
+    { name: 'Exynos 2400', aliases: ['s5e9945', 'exynos2400'], cpuClass: 5, gpuClass: 4, processNm: 4, cores: { prime: 1, performance: 5, efficiency: 4 } },
+
+    // MediaTek
+    { name: 'Helio G80', aliases: ['MT6769'], cpuClass: 2, gpuClass: 1, processNm: 12, cores: { prime: 0, performance: 2, efficiency: 6 } },
+    { name: 'Helio G99', aliases: ['MT6789'], cpuClass: 2, gpuClass: 2, processNm: 6, cores: { prime: 0, performance: 2, efficiency: 6 } },
+    { name: 'Dimensity 700', aliases: ['MT6833'], cpuClass: 2, gpuClass: 2, processNm: 7, cores: { prime: 0, performance: 2, efficiency: 6 } },
+    { name: 'Dimensity 1080', aliases: ['MT6877'], cpuClass: 3, gpuClass: 3, processNm: 6, cores: { prime: 0, performance: 2, efficiency: 6 } },
+  ],
+};
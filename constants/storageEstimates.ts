@@ -0,0 +1,43 @@
+// Rules for estimating storage when the platform APIs return nothing.
+// The first matching rule wins. Bump the version whenever rules change.
+
+// Capacities phones are sold in, in decimal GB as printed on the box
+export const MARKETED_CAPACITY_TIERS_GB = [8, 16, 32, 64, 128, 256, 512, 1000, 2000];
+
+// Share of the marketed capacity lost to the OS, firmware partitions and
+// decimal-vs-binary rounding; a 128 GB phone typically shows ~113 GB usable
+export const TYPICAL_SYSTEM_SHARE = 0.12;
+
+export interface StorageEstimateRule {
+  id: string;
+  description: string;           // Shown next to estimated values
+  brand?: RegExp;                // Tested against Device.brand and Device.manufacturer
+  minYearClass?: number;         // Device.deviceYearClass; unknown years never match
+  capacityGB: number;            // Marketed capacity of the base variant
+  freeShare: number;             // Typical share of usable space left free
+}
+
+export const STORAGE_ESTIMATE_RULES: {
+  version: number;
+  rules: StorageEstimateRule[];
+} = {
+  version: 1,
+  rules: [
+    // iPhone 13 and later start at 128 GB; iPhone XS through 12 at 64 GB
+    { id: 'apple-2021', description: 'base storage of iPhones from 2021 on', brand: /apple/i, minYearClass: 2021, capacityGB: 128, freeShare: 0.45 },
+    { id: 'apple-2018', description: 'base storage of iPhones from 2018-2020', brand: /apple/i, minYearClass: 2018, capacityGB: 64, freeShare: 0.35 },
+    { id: 'apple-older', description: 'base storage of older iPhones', brand: /apple/i, capacityGB: 32, freeShare: 0.3 },
+
+    // Galaxy S/A5x and Pixel lines moved to a 128 GB base around 2020-2021
+    { id: 'samsung-2020', description: 'base storage of Samsung phones from 2020 on', brand: /samsung/i, minYearClass: 2020, capacityGB: 128, freeShare: 0.45 },
+    { id: 'google-2021', description: 'base storage of Pixels from 2021 on', brand: /google/i, minYearClass: 2021, capacityGB: 128, freeShare: 0.45 },
+
+    { id: 'android-2022', description: 'typical storage of phones from 2022 on', minYearClass: 2022, capacityGB: 128, freeShare: 0.45 },
+    { id: 'android-2018', description: 'typical storage of phones from 2018-2021', minYearClass: 2018, capacityGB: 64, freeShare: 0.4 },
+    { id: 'android-2015', description: 'typical storage of phones from 2015-2017', minYearClass: 2015, capacityGB: 32, freeShare: 0.3 },
+    { id: 'android-older', description: 'typical storage of phones before 2015', minYearClass: 0, capacityGB: 16, freeShare: 0.3 },
+
+    // Year unknown: the most common capacity across phones in use
+    { id: 'fallback', description: 'the most common phone storage size', capacityGB: 64, freeShare: 0.4 },
+  ],
+};
@@ -0,0 +1,25 @@
+// Camera recording modes, shared by the video capability and the storage planner.
+
+export type VideoResolution = '720p' | '1080p' | '4K';
+export type VideoFrameRate = 30 | 60;
+
+export interface VideoMode {
+  resolution: VideoResolution;
+  fps: VideoFrameRate;
+}
+
+export interface VideoModeSpec extends VideoMode {
+  bitrateMBps: number;           // Typical camera bitrate in MB/s
+  drainPercentPerHour: number;   // On a phone with the default battery capacity
+  minPerformanceTier: number;
+}
+
+// Typical phone camera bitrates (8-100 Mbps) and recording drain, lowest quality first
+export const VIDEO_MODES: VideoModeSpec[] = [
+  { resolution: '720p', fps: 30, bitrateMBps: 1, drainPercentPerHour: 12, minPerformanceTier: 1 },
+  { resolution: '720p', fps: 60, bitrateMBps: 1.5, drainPercentPerHour: 15, minPerformanceTier: 1 },
+  { resolution: '1080p', fps: 30, bitrateMBps: 2.1, drainPercentPerHour: 15, minPerformanceTier: 1 },
+  { resolution: '1080p', fps: 60, bitrateMBps: 3.25, drainPercentPerHour: 20, minPerformanceTier: 2 },
+  { resolution: '4K', fps: 30, bitrateMBps: 6.25, drainPercentPerHour: 25, minPerformanceTier: 3 },
+  { resolution: '4K', fps: 60, bitrateMBps: 12.5, drainPercentPerHour: 35, minPerformanceTier: 4 },
+];
@@ -0,0 +1,340 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ScrollView, View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { useDevice } from '../utils/deviceInfo';
+import { BenchmarkCancelledError, BenchmarkRunOptions } from '../utils/benchmarkUtils';
+import {
+  BENCHMARK_TESTS,
+  BenchmarkTest,
+  BenchmarkTestId,
+  getBenchmarkTest,
+  runBenchmarkSuite,
+  runBenchmarkTest,
+} from '../utils/benchmarkSuite';
+import { benchmarkHistory, BenchmarkComparison, BenchmarkRunRecord } from '../utils/benchmarkHistory';
+import BenchmarkCard from '../components/benchmarkCard';
+import RenderStressStage from '../components/renderStressStage';
+import { colors } from '../constants/colors';
+import { PERFORMANCE_TIER_LABELS } from '../capabilities/performanceCapability';
+
+const IconsComponent = Ionicons as any;
+
+const RECENT_RUNS = 10;
+
+const suiteMinutes = Math.ceil(
+  BENCHMARK_TESTS.reduce((sum, test) => sum + test.estimatedSeconds, 0) / 60
+);
+
+const tierName = (tier: number) => PERFORMANCE_TIER_LABELS[tier] ?? `Tier ${tier}`;
+
+const formatSigned = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+
+const describeError = (error: unknown) =>
+  `Failed: ${error instanceof Error ? error.message : String(error)}`;
+
+const BenchmarksScreen = () => {
+  const navigation = useNavigation();
+  const { deviceInfo, refresh } = useDevice();
+  const [running, setRunning] = useState<BenchmarkTestId | 'suite' | null>(null);
+  const [progress, setProgress] = useState({ progress: 0, stage: '' });
+  const [comparisons, setComparisons] = useState<Partial<Record<BenchmarkTestId, BenchmarkComparison>>>({});
+  const [recentRuns, setRecentRuns] = useState<BenchmarkRunRecord[]>([]);
+  const [errors, setErrors] = useState<Partial<Record<BenchmarkTestId | 'suite', string>>>({});
+  const abortRef = useRef<AbortController | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    const entries = await Promise.all(
+      BENCHMARK_TESTS.map(async test => [test.id, await benchmarkHistory.getComparison(test.id)] as const)
+    );
+    const next: Partial<Record<BenchmarkTestId, BenchmarkComparison>> = {};
+    entries.forEach(([id, comparison]) => {
+      if (comparison) next[id] = comparison;
+    });
+    setComparisons(next);
+    setRecentRuns((await benchmarkHistory.getRuns()).slice(0, RECENT_RUNS));
+  }, []);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  // Stop a running test when leaving the screen
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const execute = async (
+    id: BenchmarkTestId | 'suite',
+    run: (options: BenchmarkRunOptions) => Promise<unknown>
+  ) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(id);
+    // A suite run starts every test afresh
+    setErrors(current => {
+      if (id === 'suite') return {};
+      const { [id]: _cleared, ...rest } = current;
+      return rest;
+    });
+    try {
+      await run({
+        signal: controller.signal,
+        onProgress: (value, stage) => setProgress({ progress: value, stage }),
+      });
+    } catch (error) {
+      if (!(error instanceof BenchmarkCancelledError)) {
+        console.warn(`${id} benchmark failed:`, error);
+        setErrors(current => ({ ...current, [id]: describeError(error) }));
+      }
+    } finally {
+      abortRef.current = null;
+      setRunning(null);
+      setProgress({ progress: 0, stage: '' });
+      await loadHistory();
+      await refresh();
+    }
+  };
+
+  if (!deviceInfo) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text>Loading device info...</Text>
+      </View>
+    );
+  }
+
+  const runTest = (test: BenchmarkTest) =>
+    execute(test.id, options => runBenchmarkTest(test, deviceInfo, options));
+
+  const runSuite = () =>
+    execute('suite', options => runBenchmarkSuite(BENCHMARK_TESTS, deviceInfo, {
+      ...options,
+      onTestError: (test, error) => setErrors(current => ({ ...current, [test.id]: describeError(error) })),
+    }));
+
+  const measuredCount = Object.keys(comparisons).length;
+  const failedTests = BENCHMARK_TESTS.filter(test => errors[test.id]);
+  const suiteError = errors.suite ?? (failedTests.length > 0
+    ? `${failedTests.length} failed: ${failedTests.map(test => test.title).join(', ')}`
+    : null);
+
+  const renderComparison = (test: BenchmarkTest, comparison?: BenchmarkComparison) => {
+    if (!comparison) return null;
+    const { latest, previous, valueDelta, percentDelta } = comparison;
+    // Runs recorded before a test lost its estimate still carry one
+    const tierDelta = test.estimateTier ? comparison.tierDelta : null;
+
+    const previousColor = valueDelta === null || valueDelta === 0
+      ? colors.textSecondary
+      : valueDelta > 0 ? colors.success : colors.error;
+    const tierColor = !tierDelta ? colors.textSecondary : tierDelta > 0 ? colors.success : colors.warning;
+
+    return (
+      <View style={styles.comparison}>
+        <Text style={styles.comparisonLine}>
+          vs previous:{' '}
+          <Text style={{ color: previousColor }}>
+            {previous && valueDelta !== null
+              ? `${formatSigned(valueDelta)} ${latest.unit}` +
+                (percentDelta !== null ? ` (${formatSigned(percentDelta)}%)` : '')
+              : 'first run'}
+          </Text>
+        </Text>
+        {tierDelta !== null && latest.heuristicTier !== null && (
+          <Text style={styles.comparisonLine}>
+            vs estimate:{' '}
+            <Text style={{ color: tierColor }}>
+              {tierDelta === 0
+                ? `matches ${tierName(latest.heuristicTier)}`
+                : `${tierName(latest.impliedTier)} measured, ${tierName(latest.heuristicTier)} guessed`}
+            </Text>
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton} activeOpacity={0.7}>
+          <IconsComponent name="chevron-back" size={22} color="#fff" />
+          <Text style={styles.backText}>Performance</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Benchmarks</Text>
+        <Text style={styles.subtitle}>Measured tests on this device</Text>
+      </View>
+
+      {/* Render benchmark draws here while it runs */}
+      <RenderStressStage />
+
+      {/* Full Suite */}
+      <BenchmarkCard
+        title="Run All Tests"
+        icon="play-circle-outline"
+        description={`Every test back to back, about ${suiteMinutes} min`}
+        result={`${measuredCount} of ${BENCHMARK_TESTS.length} tests measured`}
+        error={suiteError}
+        running={running === 'suite'}
+        progress={progress.progress}
+        stage={progress.stage}
+        disabled={running !== null}
+        onRun={runSuite}
+        onCancel={() => abortRef.current?.abort()}
+      />
+
+      {/* Individual Tests */}
+      <Text style={styles.sectionTitle}>Tests</Text>
+      {BENCHMARK_TESTS.map(test => (
+        <BenchmarkCard
+          key={test.id}
+          title={test.title}
+          icon={test.icon}
+          description={test.description}
+          result={comparisons[test.id]?.latest.summary ?? null}
+          error={errors[test.id]}
+          running={running === test.id}
+          progress={progress.progress}
+          stage={progress.stage}
+          disabled={running !== null}
+          onRun={() => runTest(test)}
+          onCancel={() => abortRef.current?.abort()}
+        >
+          {renderComparison(test, comparisons[test.id])}
+        </BenchmarkCard>
+      ))}
+
+      {/* Run History */}
+      {recentRuns.length > 0 && (
+        <View style={styles.historySection}>
+          <Text style={styles.sectionTitle}>Recent Runs</Text>
+          <View style={styles.historyCard}>
+            {recentRuns.map((run, index) => (
+              <View
+                key={`${run.testId}-${run.timestamp}`}
+                style={[styles.historyRow, index < recentRuns.length - 1 && styles.historyDivider]}
+              >
+                <View style={styles.historyText}>
+                  <Text style={styles.historyTitle}>{getBenchmarkTest(run.testId)?.title ?? run.testId}</Text>
+                  <Text style={styles.historyDate}>{new Date(run.timestamp).toLocaleString()}</Text>
+                </View>
+                <Text style={styles.historyValue}>{run.value} {run.unit}</Text>
+              </View>
+            ))}
+          </View>
+        </View>
+      )}
+
+      <View style={styles.footer}>
+        <Text style={styles.footerNote}>
+          Results depend on temperature, battery level and background apps
+        </Text>
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.background,
+  },
+  header: {
+    padding: 24,
+    backgroundColor: colors.primary,
+    borderBottomLeftRadius: 24,
+    borderBottomRightRadius: 24,
+    paddingTop: 50,
+    marginBottom: 16,
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+    marginLeft: -6,
+  },
+  backText: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.9)',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#fff',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: 'rgba(255, 255, 255, 0.9)',
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: 12,
+    marginBottom: 12,
+    marginLeft: 20,
+  },
+  comparison: {
+    backgroundColor: colors.background,
+    borderRadius: 10,
+    padding: 10,
+    marginBottom: 12,
+  },
+  comparisonLine: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: 2,
+  },
+  historySection: {
+    marginBottom: 12,
+  },
+  historyCard: {
+    backgroundColor: colors.cardBackground,
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    marginHorizontal: 16,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  historyDivider: {
+    borderBottomWidth: 1,
+    borderBottomColor: colors.lightGray,
+  },
+  historyText: {
+    flex: 1,
+  },
+  historyTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  historyDate: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  historyValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  footer: {
+    padding: 20,
+    alignItems: 'center',
+  },
+  footerNote: {
+    fontSize: 11,
+    color: colors.gray,
+    textAlign: 'center',
+  },
+});
+
+export default BenchmarksScreen;
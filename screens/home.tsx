@@ -10,7 +10,7 @@ import {
 import { useDevice } from '../utils/deviceInfo';
 import CapabilityCard from '../components/capability';
 import { colors } from '../constants/colors';
-import { TIERS } from '../constants/tiers';
+import { toHomeView } from '../capabilities/capabilityAdapters';
 import { momentEngine } from '../utils/momentsEngine';
 
 type HighlightMoment = {
@@ -71,6 +71,8 @@ const HomeScreen = () => {
     };
   }, [deviceInfo, capabilities, runtimeSignals]);
 
+  const homeView = capabilities ? toHomeView(capabilities) : null;
+
   const handleCardPress = (title: string) => {
     console.log(`Pressed ${title} card`);
   };
@@ -116,39 +118,31 @@ const HomeScreen = () => {
       )}
 
       {/* Capability Cards */}
-      {capabilities && (
+      {homeView && (
         <>
           <CapabilityCard
             title="Performance"
             icon="speedometer-outline"
-            tier={capabilities.performance?.tier}
-            description={
-              TIERS[
-                capabilities.performance?.tier as keyof typeof TIERS
-              ]?.sentence || 'Checking performance...'
-            }
-            confidence={capabilities.performance?.confidence ?? 0}
+            tier={homeView.performance.tier}
+            description={homeView.performance.description}
+            confidence={homeView.performance.confidence}
             onPress={() => handleCardPress('Performance')}
           />
 
           <CapabilityCard
             title="Gaming"
             icon="game-controller-outline"
-            tier={capabilities.gaming?.tier}
-            description={capabilities.gaming?.description ?? ''}
-            confidence={capabilities.gaming?.confidence ?? 0}
+            tier={homeView.gaming.tier}
+            description={homeView.gaming.description}
+            confidence={homeView.gaming.confidence}
             onPress={() => handleCardPress('Gaming')}
           />
 
           <CapabilityCard
             title="Battery"
             icon="battery-charging-outline"
-            description={
-              capabilities.battery?.estimatedUsage?.normal
-                ? `Estimated: ${capabilities.battery.estimatedUsage.normal}`
-                : 'Estimating battery usage...'
-            }
-            confidence={85}
+            description={homeView.battery.description}
+            confidence={homeView.battery.confidence}
             onPress={() => handleCardPress('Battery')}
             color={colors.accent}
           />
@@ -156,11 +150,8 @@ const HomeScreen = () => {
           <CapabilityCard
             title="Storage"
             icon="folder-outline"
-            description={
-              capabilities.storage?.humanReadable?.photos ??
-              'Storage details unavailable'
-            }
-            confidence={90}
+            description={homeView.storage.description}
+            confidence={homeView.storage.confidence}
             onPress={() => handleCardPress('Storage')}
             color={colors.secondary}
           />
@@ -168,10 +159,8 @@ const HomeScreen = () => {
           <CapabilityCard
             title="Sensors"
             icon="eye-outline"
-            description={`${
-              capabilities.sensors?.filter(s => s.available).length ?? 0
-            } sensors available`}
-            confidence={95}
+            description={homeView.sensors.description}
+            confidence={homeView.sensors.confidence}
             onPress={() => handleCardPress('Sensors')}
             color={colors.primary}
           />
@@ -179,12 +168,8 @@ const HomeScreen = () => {
           <CapabilityCard
             title="Daily Usage"
             icon="stats-chart-outline"
-            description={
-              capabilities.dailyUsage
-                ? `${capabilities.dailyUsage.pattern} user - ${capabilities.dailyUsage.screenTime}`
-                : 'Analyzing usage patterns...'
-            }
-            confidence={75}
+            description={homeView.dailyUsage.description}
+            confidence={homeView.dailyUsage.confidence}
             onPress={() => handleCardPress('Daily Usage')}
             color={colors.warning}
           />
@@ -1,23 +1,39 @@
-import React from 'react';
-import { ScrollView, View, Text, StyleSheet } from 'react-native';
+import React, { useMemo } from 'react';
+import { ScrollView, View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import type { StackNavigationProp } from '@react-navigation/stack';
 import { useDevice } from '../utils/deviceInfo';
 import CapabilityCard from '../components/capability';
 import UsageRing from '../components/usageRing';
 import ConfidenceBar from '../components/ConfidenceBar';
+import GameCompatibilityList from '../components/gameCompatibilityList';
+import VideoModeGrid from '../components/videoModeGrid';
 import { colors } from '../constants/colors';
 import { TIERS } from '../constants/tiers';
 import { 
-  buildCapabilities, 
   generateConfidenceBars, 
   getCapabilityExplanation,
   getCapabilityTier,
   getCapabilityScore
 } from '../capabilities/capabilityEngine';
+import { calculateGameCompatibility } from '../capabilities/gameCompatibility';
+
+const IconsComponent = Ionicons as any;
 
 const PerformanceScreen = () => {
-  const { deviceInfo, runtimeSignals, loading } = useDevice();
+  const { deviceInfo, runtimeSignals, capabilities, loading } = useDevice();
+  const navigation = useNavigation<StackNavigationProp<any>>();
+
+  // Keeps the same list object across renders so the compatibility list only re-renders on new inputs
+  const games = useMemo(
+    () => (deviceInfo && runtimeSignals && capabilities
+      ? calculateGameCompatibility(deviceInfo, runtimeSignals, { gaming: capabilities.gaming })
+      : null),
+    [deviceInfo, runtimeSignals, capabilities]
+  );
 
-  if (loading || !deviceInfo || !runtimeSignals) {
+  if (loading || !deviceInfo || !runtimeSignals || !capabilities || !games) {
     return (
       <View style={styles.loadingContainer}>
         <Text>Loading device capabilities...</Text>
@@ -25,8 +41,6 @@ const PerformanceScreen = () => {
     );
   }
 
-  // Build all capabilities using the new engine
-  const capabilities = buildCapabilities(deviceInfo, runtimeSignals);
   const confidenceBars = generateConfidenceBars(capabilities);
 
   const performance = capabilities.performance;
@@ -36,6 +50,17 @@ const PerformanceScreen = () => {
   const dailyUsage = capabilities.dailyUsage;
   const featureUnlocks = capabilities.featureUnlocks;
 
+  // Measured signals replacing model-based guesses
+  const measuredSignals = [
+    runtimeSignals.cpuBenchmark,
+    runtimeSignals.storageThroughput,
+    runtimeSignals.effectiveMemory,
+    runtimeSignals.sustainedPerformance,
+    runtimeSignals.renderPerformance,
+    deviceInfo.provenance?.refreshRate === 'measured' ? true : undefined,
+  ];
+  const measuredCount = measuredSignals.filter(Boolean).length;
+
   // Get tier info safely
   const performanceTier = performance.tier;
   const tierInfo = TIERS[performanceTier as keyof typeof TIERS] || TIERS[1];
@@ -76,6 +101,26 @@ const PerformanceScreen = () => {
         </View>
       </View>
 
+      {/* Benchmarks */}
+      <TouchableOpacity
+        style={styles.benchmarksLink}
+        onPress={() => navigation.navigate('Benchmarks')}
+        activeOpacity={0.7}
+      >
+        <View style={styles.benchmarksIcon}>
+          <IconsComponent name="flask-outline" size={22} color={colors.primary} />
+        </View>
+        <View style={styles.benchmarksText}>
+          <Text style={styles.benchmarksTitle}>Benchmarks</Text>
+          <Text style={styles.benchmarksDescription}>
+            {measuredCount > 0
+              ? `${measuredCount} of ${measuredSignals.length} signals measured - run tests to replace estimates`
+              : 'Run measured tests instead of relying on estimates'}
+          </Text>
+        </View>
+        <IconsComponent name="chevron-forward" size={20} color={colors.gray} />
+      </TouchableOpacity>
+
       {/* Performance Details Card */}
       <CapabilityCard
         title="Overall Performance"
@@ -106,6 +151,13 @@ const PerformanceScreen = () => {
         // recommendations={videoRecording.recommendations}
       />
 
+      {/* Video Modes */}
+      <View style={styles.videoModesSection}>
+        <Text style={styles.sectionTitle}>Video Modes</Text>
+        <Text style={styles.sectionNote}>Recordable time right now at each setting</Text>
+        <VideoModeGrid modes={videoRecording.modes} recommendedMode={videoRecording.recommendedMode} />
+      </View>
+
       {/* Battery Stress Card */}
       <CapabilityCard
         title="Battery Endurance"
@@ -200,6 +252,12 @@ const PerformanceScreen = () => {
         </View>
       </View>
 
+      {/* Games */}
+      <View style={styles.gamesSection}>
+        <Text style={styles.sectionTitle}>Games</Text>
+        <GameCompatibilityList compatibility={games} />
+      </View>
+
       {/* Last Updated */}
       <View style={styles.footer}>
         <Text style={styles.footerText}>
@@ -287,6 +345,42 @@ const styles = StyleSheet.create({
     marginVertical: 20,
     paddingBottom: 10,
   },
+  benchmarksLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.cardBackground,
+    borderRadius: 16,
+    padding: 16,
+    marginHorizontal: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  benchmarksIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.primary + '15',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  benchmarksText: {
+    flex: 1,
+  },
+  benchmarksTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 2,
+  },
+  benchmarksDescription: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
   featuresSection: {
     paddingHorizontal: 16,
     marginTop: 20,
@@ -405,6 +499,22 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  videoModesSection: {
+    paddingHorizontal: 16,
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  sectionNote: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: -10,
+    marginBottom: 12,
+    marginLeft: 4,
+  },
+  gamesSection: {
+    paddingHorizontal: 16,
+    marginBottom: 24,
+  },
   footer: {
     padding: 20,
     alignItems: 'center',
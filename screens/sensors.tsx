@@ -5,6 +5,7 @@ import { useDevice } from '../utils/deviceInfo';
 import SensorCard from '../components/sensor';
 import StepTracker from '../components/stepTracker';
 import { colors } from '../constants/colors';
+import { toSensorsView } from '../capabilities/capabilityAdapters';
 import Ionicons from 'react-native-vector-icons/Ionicons';
 const IconsComponent = Ionicons as any;
 
@@ -19,13 +20,12 @@ const SensorsScreen = () => {
     );
   }
 
-  const availableSensors = capabilities.sensors.filter(s => s.available);
-  const unavailableSensors = capabilities.sensors.filter(s => !s.available);
+  const sensorsView = toSensorsView(capabilities);
+  const availableSensors = sensorsView.available;
+  const unavailableSensors = sensorsView.unavailable;
   
   // Check if device has accelerometer (for step detection)
-  const hasAccelerometer = availableSensors.some(s => 
-    s.name.toLowerCase().includes('accelerometer')
-  );
+  const hasAccelerometer = sensorsView.hasAccelerometer;
 
   return (
     <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
@@ -43,7 +43,7 @@ const SensorsScreen = () => {
             <Text style={styles.statLabel}>Not Available</Text>
           </View>
           <View style={styles.stat}>
-            <Text style={styles.statNumber}>{capabilities.sensors.length}</Text>
+            <Text style={styles.statNumber}>{sensorsView.total}</Text>
             <Text style={styles.statLabel}>Total</Text>
           </View>
         </View>
@@ -121,6 +121,13 @@ const SensorsScreen = () => {
             </Text>
           </View>
         )}
+
+        {sensorsView.stabilizationNote && (
+          <View style={styles.tipContainer}>
+            <IconsComponent name="videocam-outline" size={16} color={colors.warning} />
+            <Text style={styles.tipText}>{sensorsView.stabilizationNote}</Text>
+          </View>
+        )}
       </View>
     </ScrollView>
   );
@@ -1,12 +1,84 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { ScrollView, View, Text, StyleSheet } from 'react-native';
 import { useDevice } from '../utils/deviceInfo';
 import UsageRing from '../components/usageRing';
+import TimeSeriesChart, { ChartAnnotation, ChartPoint, ChartRange } from '../components/timeSeriesChart';
+import { storageSampler, StorageForecast } from '../utils/storageSampler';
+import { batterySampler } from '../utils/batterySampler';
+import { chargingSessionTracker, ChargeInsight, ChargingSession } from '../utils/chargingSessions';
+import ChargingHabits from '../components/chargingHabits';
+import BatteryCapacityEditor from '../components/batteryCapacityEditor';
+import StoragePlanner from '../components/storagePlanner';
+import SandboxStorageCard from '../components/sandboxStorageCard';
+import { userSettings } from '../utils/userSettings';
 import { colors } from '../constants/colors';
+import { toStorageBatteryView } from '../capabilities/capabilityAdapters';
+import type { StorageSource } from '../utils/storageutils';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const BATTERY_RANGES: ChartRange[] = [
+  { label: '6h', durationMs: 6 * HOUR_MS },
+  { label: '12h', durationMs: 12 * HOUR_MS },
+  { label: '24h', durationMs: DAY_MS },
+];
+
+const STORAGE_RANGES: ChartRange[] = [
+  { label: '7d', durationMs: 7 * DAY_MS },
+  { label: '14d', durationMs: 14 * DAY_MS },
+  { label: '30d', durationMs: 30 * DAY_MS },
+];
+
+const STORAGE_SOURCE_LABELS: Record<StorageSource, string> = {
+  legacyApi: 'Read from the system',
+  fileSystemApi: 'Read from the system (fallback API)',
+  estimate: 'Estimated',
+};
 
 const StorageBatteryScreen = () => {
-  const { capabilities } = useDevice();
+  const { capabilities, refresh } = useDevice();
   console.log("Capabilities in StorageBatteryScreen:", capabilities);
+  const [batterySeries, setBatterySeries] = useState<ChartPoint[]>([]);
+  const [storageSeries, setStorageSeries] = useState<ChartPoint[]>([]);
+  const [chargingSpans, setChargingSpans] = useState<ChartAnnotation[]>([]);
+  const [chargingSessions, setChargingSessions] = useState<ChargingSession[]>([]);
+  const [chargeInsights, setChargeInsights] = useState<ChargeInsight[]>([]);
+  const [storageForecast, setStorageForecast] = useState<StorageForecast | null>(null);
+
+  // Reload recorded samples whenever a new refresh lands
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSeries = async () => {
+      try {
+        const now = Date.now();
+        const [battery, storage, charging, sessions, insights, forecast] = await Promise.all([
+          batterySampler.getSamples(now - DAY_MS),
+          storageSampler.getSamples(now - 30 * DAY_MS),
+          batterySampler.getChargingSpans(now - DAY_MS),
+          chargingSessionTracker.getSessions(now - 30 * DAY_MS),
+          chargingSessionTracker.getInsights(),
+          storageSampler.getForecast(),
+        ]);
+        if (cancelled) return;
+        setBatterySeries(battery.map(p => ({ timestamp: p.timestamp, value: p.level * 100 })));
+        setStorageSeries(storage.map(s => ({ timestamp: s.timestamp, value: s.freeBytes / (1024 ** 3) })));
+        setChargingSpans(charging);
+        setChargingSessions(sessions);
+        setChargeInsights(insights);
+        setStorageForecast(forecast);
+      } catch (error) {
+        console.warn('Failed to load history series:', error);
+      }
+    };
+
+    loadSeries();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [capabilities]);
 
   if (!capabilities) {
     return (
@@ -16,15 +88,20 @@ const StorageBatteryScreen = () => {
     );
   }
 
-  const storage = capabilities.storage;
-  const battery = capabilities.battery;
+  const { storage, battery } = toStorageBatteryView(capabilities);
+
+  const saveBatteryCapacity = async (mAh: number | undefined) => {
+    await userSettings.update({ batteryCapacityMah: mAh });
+    await refresh();
+  };
   
   // Check if storage data is available
-  const hasStorageData = storage.total > 0;
+  const hasStorageData = storage.hasData;
+  const isEstimate = storage.capacity?.source === 'estimate';
 
-  // Calculate percentages only if we have data
-  const usedPercentage = hasStorageData ? (storage.used / storage.total) * 100 : 0;
-  const freePercentage = hasStorageData ? (storage.free / storage.total) * 100 : 0;
+  // Percentages are zero when there's no data
+  const usedPercentage = storage.usedPercentage;
+  const freePercentage = storage.freePercentage;
 
   const formatBytes = (bytes: number) => {
     if (!bytes || bytes === 0) return 'Unknown';
@@ -36,6 +113,27 @@ const StorageBatteryScreen = () => {
     return `${bytes} bytes`;
   };
 
+  // Marketed sizes are decimal, as printed on the box
+  const formatMarketed = (gb: number) => (gb >= 1000 ? `${gb / 1000} TB` : `${gb} GB`);
+
+  const formatForecastRate = (bytesPerDay: number) => {
+    const mbPerDay = bytesPerDay / (1024 ** 2);
+    if (Math.abs(mbPerDay) < 10) return 'Free space is holding steady';
+    const amount = Math.abs(mbPerDay) >= 1024
+      ? `${(Math.abs(mbPerDay) / 1024).toFixed(1)} GB`
+      : `${Math.round(Math.abs(mbPerDay))} MB`;
+    return mbPerDay < 0 ? `Filling up by ${amount} a day` : `Freeing up ${amount} a day`;
+  };
+
+  const formatDaysUntil = (days: number | null) => {
+    if (days === null) return 'Not on current trend';
+    if (days === 0) return 'Already there';
+    if (days < 1) return 'Within a day';
+    if (days < 1.5) return 'In about a day';
+    if (days > 365) return 'Over a year';
+    return `In ${Math.round(days)} days`;
+  };
+
   return (
     <ScrollView style={styles.container}>
       <View style={styles.header}>
@@ -47,9 +145,35 @@ const StorageBatteryScreen = () => {
         <Text style={styles.sectionTitle}>Storage</Text>
         <View style={styles.storageCard}>
           <View style={styles.storageHeader}>
-            <Text style={styles.storageLabel}>Total Storage</Text>
-            <Text style={styles.storageValue}>{formatBytes(storage.total)}</Text>
+            <View>
+              <Text style={styles.storageLabel}>Total Storage</Text>
+              {storage.capacity && (
+                <Text style={[styles.storageSource, isEstimate && styles.storageSourceEstimate]}>
+                  {STORAGE_SOURCE_LABELS[storage.capacity.source]}
+                </Text>
+              )}
+            </View>
+            <Text style={styles.storageValue}>
+              {isEstimate ? '~' : ''}{formatBytes(storage.total)}
+            </Text>
           </View>
+
+          {storage.capacity && hasStorageData && (
+            <Text style={styles.capacityNote}>
+              {isEstimate ? 'About ' : ''}{formatMarketed(storage.capacity.marketedGB)} model,{' '}
+              {formatBytes(storage.capacity.systemReserved)} of it kept by the system
+            </Text>
+          )}
+
+          {isEstimate && (
+            <View style={styles.estimateNotice}>
+              <Text style={styles.estimateNoticeText}>
+                Phonefit couldn't read storage from the system. Capacity is estimated from{' '}
+                {storage.capacity?.estimateBasis ?? 'the device model'}, and used and free space are
+                typical figures, not your phone's.
+              </Text>
+            </View>
+          )}
           
           {hasStorageData ? (
             <>
@@ -71,28 +195,16 @@ const StorageBatteryScreen = () => {
               <View style={styles.storageDetails}>
                 <View style={styles.storageDetail}>
                   <View style={[styles.colorDot, { backgroundColor: colors.primary }]} />
-                  <Text style={styles.detailLabel}>Used: {formatBytes(storage.used)}</Text>
+                  <Text style={styles.detailLabel}>Used: {isEstimate ? '~' : ''}{formatBytes(storage.used)}</Text>
                 </View>
                 <View style={styles.storageDetail}>
                   <View style={[styles.colorDot, { backgroundColor: colors.accent }]} />
-                  <Text style={styles.detailLabel}>Free: {formatBytes(storage.free)}</Text>
+                  <Text style={styles.detailLabel}>Free: {isEstimate ? '~' : ''}{formatBytes(storage.free)}</Text>
                 </View>
               </View>
 
-              <View style={styles.humanReadable}>
-                <Text style={styles.humanReadableTitle}>What you can store:</Text>
-                <View style={styles.humanReadableItem}>
-                  <Text style={styles.humanReadableIcon}>🎬</Text>
-                  <Text style={styles.humanReadableText}>{storage.humanReadable.movies}</Text>
-                </View>
-                <View style={styles.humanReadableItem}>
-                  <Text style={styles.humanReadableIcon}>📸</Text>
-                  <Text style={styles.humanReadableText}>{storage.humanReadable.photos}</Text>
-                </View>
-                <View style={styles.humanReadableItem}>
-                  <Text style={styles.humanReadableIcon}>📱</Text>
-                  <Text style={styles.humanReadableText}>{storage.humanReadable.apps}</Text>
-                </View>
+              <View style={styles.planner}>
+                <StoragePlanner freeBytes={storage.free} totalBytes={storage.total} />
               </View>
             </>
           ) : (
@@ -112,6 +224,45 @@ const StorageBatteryScreen = () => {
             </View>
           )}
         </View>
+
+        <View style={styles.chartCard}>
+          <Text style={styles.chartTitle}>Free Storage</Text>
+          <TimeSeriesChart
+            points={storageSeries}
+            ranges={STORAGE_RANGES}
+            defaultRangeIndex={2}
+            color={colors.accent}
+            formatValue={(gb) => `${gb.toFixed(1)} GB`}
+            emptyText="Storage history appears after a few visits"
+          />
+          <View style={styles.forecast}>
+            {storageForecast ? (
+              <>
+                <Text style={styles.forecastRate}>
+                  {formatForecastRate(storageForecast.slopeBytesPerDay)}
+                </Text>
+                {storageForecast.thresholds.map(threshold => (
+                  <View key={threshold.freePercent} style={styles.forecastRow}>
+                    <Text style={styles.forecastLabel}>
+                      {threshold.freePercent === 0 ? 'Full' : `${threshold.freePercent}% free`}
+                    </Text>
+                    <Text style={styles.forecastValue}>{formatDaysUntil(threshold.daysUntil)}</Text>
+                  </View>
+                ))}
+                <Text style={styles.forecastNote}>
+                  Based on {storageForecast.sampleCount} samples over {Math.round(storageForecast.spanDays)}{' '}
+                  {Math.round(storageForecast.spanDays) === 1 ? 'day' : 'days'}, {storageForecast.confidence}% confidence
+                </Text>
+              </>
+            ) : (
+              <Text style={styles.forecastNote}>A forecast appears after three days of storage samples</Text>
+            )}
+          </View>
+        </View>
+
+        <View style={styles.chartCard}>
+          <SandboxStorageCard />
+        </View>
       </View>
 
       <View style={styles.section}>
@@ -123,18 +274,32 @@ const StorageBatteryScreen = () => {
               backgroundColor: 
                 battery.health === 'Excellent' ? colors.success + '20' :
                 battery.health === 'Good' ? colors.accent + '20' :
-                battery.health === 'Fair' ? colors.warning + '20' : colors.error + '20'
+                battery.health === 'Fair' ? colors.warning + '20' :
+                battery.health === 'Poor' ? colors.error + '20' : colors.lightGray
             }]}>
               <Text style={[styles.healthText, { 
                 color: 
                   battery.health === 'Excellent' ? colors.success :
                   battery.health === 'Good' ? colors.accent :
-                  battery.health === 'Fair' ? colors.warning : colors.error
+                  battery.health === 'Fair' ? colors.warning :
+                  battery.health === 'Poor' ? colors.error : colors.gray
               }]}>
                 {battery.health}
               </Text>
             </View>
           </View>
+          <Text style={styles.healthExplanation}>{battery.healthExplanation}</Text>
+          {battery.health !== 'Unknown' && (
+            <Text style={styles.healthConfidence}>
+              {battery.healthConfidence}% confidence, based on recorded charge curves
+            </Text>
+          )}
+
+          <BatteryCapacityEditor
+            capacity={battery.capacity}
+            source={battery.capacitySource}
+            onSave={saveBatteryCapacity}
+          />
 
           <View style={styles.usageEstimates}>
             <Text style={styles.estimatesTitle}>Estimated Usage Time:</Text>
@@ -162,6 +327,16 @@ const StorageBatteryScreen = () => {
               </View>
               <Text style={styles.usageTime}>{battery.estimatedUsage.heavy}</Text>
             </View>
+
+            <View style={styles.usageRow}>
+              <View style={styles.usageType}>
+                <View style={[styles.usageDot, { backgroundColor: colors.error }]} />
+                <Text style={styles.usageLabel}>Heavy Use From Now</Text>
+              </View>
+              <Text style={styles.usageTime}>
+                {battery.stress.estimatedHeavyUsageMinutes} min ({battery.stress.stressLevel} stress)
+              </Text>
+            </View>
           </View>
 
           <View style={styles.tips}>
@@ -172,6 +347,27 @@ const StorageBatteryScreen = () => {
             <Text style={styles.tip}>• Avoid extreme temperatures</Text>
           </View>
         </View>
+
+        <View style={styles.chartCard}>
+          <Text style={styles.chartTitle}>Battery Level</Text>
+          <TimeSeriesChart
+            points={batterySeries}
+            ranges={BATTERY_RANGES}
+            defaultRangeIndex={2}
+            color={colors.primary}
+            minValue={0}
+            maxValue={100}
+            formatValue={(level) => `${Math.round(level)}%`}
+            annotations={chargingSpans}
+            annotationLabel="Charging"
+            emptyText="Battery history appears after a few visits"
+          />
+        </View>
+
+        <View style={styles.chartCard}>
+          <Text style={styles.chartTitle}>Charging Habits</Text>
+          <ChargingHabits sessions={chargingSessions} insights={chargeInsights} />
+        </View>
       </View>
 
       <View style={styles.footer}>
@@ -246,6 +442,32 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: colors.primary,
   },
+  storageSource: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  storageSourceEstimate: {
+    color: colors.warning,
+    fontWeight: '600',
+  },
+  capacityNote: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: -12,
+    marginBottom: 12,
+  },
+  estimateNotice: {
+    backgroundColor: colors.warning + '15',
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 12,
+  },
+  estimateNoticeText: {
+    fontSize: 13,
+    color: colors.text,
+    lineHeight: 18,
+  },
   ringsRow: {
     flexDirection: 'row',
     justifyContent: 'space-around',
@@ -270,30 +492,11 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: colors.textSecondary,
   },
-  humanReadable: {
+  planner: {
     borderTopWidth: 1,
     borderTopColor: colors.lightGray,
     paddingTop: 20,
   },
-  humanReadableTitle: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: colors.text,
-    marginBottom: 12,
-  },
-  humanReadableItem: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    marginBottom: 8,
-  },
-  humanReadableIcon: {
-    fontSize: 20,
-    marginRight: 12,
-  },
-  humanReadableText: {
-    fontSize: 14,
-    color: colors.textSecondary,
-  },
   batteryCard: {
     backgroundColor: colors.cardBackground,
     borderRadius: 16,
@@ -308,7 +511,7 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
-    marginBottom: 20,
+    marginBottom: 12,
   },
   batteryHealthLabel: {
     fontSize: 16,
@@ -324,6 +527,16 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  healthExplanation: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    lineHeight: 20,
+  },
+  healthConfidence: {
+    fontSize: 12,
+    color: colors.gray,
+    marginTop: 4,
+  },
   usageEstimates: {
     marginBottom: 24,
   },
@@ -375,6 +588,54 @@ const styles = StyleSheet.create({
     marginBottom: 6,
     lineHeight: 20,
   },
+  chartCard: {
+    backgroundColor: colors.cardBackground,
+    borderRadius: 16,
+    padding: 20,
+    marginTop: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  chartTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 4,
+  },
+  forecast: {
+    borderTopWidth: 1,
+    borderTopColor: colors.lightGray,
+    marginTop: 12,
+    paddingTop: 12,
+  },
+  forecastRate: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 8,
+  },
+  forecastRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  forecastLabel: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  forecastValue: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.text,
+  },
+  forecastNote: {
+    fontSize: 12,
+    color: colors.gray,
+    marginTop: 4,
+  },
   footer: {
     padding: 20,
     alignItems: 'center',
@@ -1,5 +1,43 @@
 declare module 'expo-file-system' {
   export const cacheDirectory: string | null;
   export function getInfoAsync(uri: string): Promise<{ exists: boolean; isDirectory: boolean; size: number }>;
+
+  export interface FileHandle {
+    writeBytes(bytes: Uint8Array): void;
+    close(): void;
+  }
+
+  export class Directory {
+    constructor(...uris: (string | File | Directory)[]);
+    readonly uri: string;
+    readonly name: string;
+    readonly exists: boolean;
+    readonly size: number | null;
+    create(options?: { intermediates?: boolean; idempotent?: boolean; overwrite?: boolean }): void;
+    delete(): void;
+    list(): (Directory | File)[];
+  }
+
+  export class File {
+    constructor(...uris: (string | File | Directory)[]);
+    readonly uri: string;
+    readonly name: string;
+    readonly extension: string;
+    readonly exists: boolean;
+    readonly size: number;
+    readonly modificationTime: number | null;
+    create(options?: { intermediates?: boolean; overwrite?: boolean }): void;
+    write(content: string | Uint8Array): void;
+    bytes(): Promise<Uint8Array>;
+    open(): FileHandle;
+    delete(): void;
+  }
+
+  export class Paths {
+    static readonly cache: Directory;
+    static readonly document: Directory;
+    static readonly availableDiskSpace: number;
+    static readonly totalDiskSpace: number;
+  }
   // add more members as needed
 }
@@ -1,4 +1,22 @@
 import { BatteryState } from "expo-battery";
+import type { EngineCapabilities } from "../capabilities/capabilityEngine";
+import type { StoragePlan } from "../utils/storagePlanner";
+import type { StorageCapacity } from "../utils/storageutils";
+import type {
+  BatteryCapacity,
+  BatteryCapacitySource,
+  BatteryHealthEstimate,
+  BatteryHealthGrade,
+  EffectiveMemory,
+  MeasuredBatteryDrain,
+  MeasuredCpuBenchmark,
+  MeasuredRenderPerformance,
+  MeasuredStorageThroughput,
+  FieldProvenance,
+  SocClass,
+  SpecMatchInfo,
+  SustainedPerformance,
+} from "../capabilities/types";
 
 export interface DeviceInfo {
   deviceName: string;
@@ -14,55 +32,54 @@ export interface DeviceInfo {
   screenSize: number;
   screenScale: number;
   refreshRate?: number;
+  variableRefreshRate?: boolean;
+  soc?: string;
+  socClass?: SocClass;
+  specMatch?: SpecMatchInfo;
+  provenance?: FieldProvenance<DeviceInfo>;
 }
 
-export interface DeviceCapabilities {
-  performance: {
-    tier: number;
-    score: number;
-    description: string;
-    confidence: number;
-  };
-  gaming: {
-    tier: number;
-    description: string;
-    confidence: number;
-    canRunAAA: boolean;
-    canRunPopular: boolean;
-  };
-  battery: {
-    estimatedUsage: {
-      light: string;
-      normal: string;
-      heavy: string;
-    };
-    health: 'Excellent' | 'Good' | 'Fair' | 'Poor';
-    capacity?: number;
-    level: number;
-    batteryState: BatteryState;
-  };
-  storage: {
-    total: number;
-    free: number;
-    used: number;
-    humanReadable: {
-      movies: string;
-      photos: string;
-      apps: string;
-    };
-    percentageFree: number;
-  };
-  sensors: Array<{
-    name: string;
-    available: boolean;
-    benefit: string;
-    icon: string;
-  }>;
-  dailyUsage: {
-    pattern: 'Light' | 'Moderate' | 'Heavy' | 'Power User';
-    description: string;
-    screenTime: number;
+export interface SensorEntry {
+  name: string;
+  available: boolean;
+  benefit: string;
+  icon: string;
+}
+
+export interface BatteryProfile {
+  estimatedUsage: {
+    light: string;
+    normal: string;
+    heavy: string;
   };
+  health: BatteryHealthGrade;
+  healthConfidence: number;
+  healthExplanation: string;
+  capacity?: number;
+  capacitySource: BatteryCapacitySource;
+  level: number;
+  batteryState: BatteryState;
+}
+
+export interface StorageProfile {
+  total: number;
+  free: number;
+  used: number;
+  plan: StoragePlan;             // What fits in free space, with the default media sizes
+  percentageFree: number;
+  capacity?: StorageCapacity;    // Where the numbers came from, marketed size and system share
+}
+
+/**
+ * Canonical capabilities model
+ * The full capability engine output plus the battery, storage and sensor
+ * profiles derived from runtime signals. Built only through the adapters
+ * in capabilities/capabilityAdapters.
+ */
+export interface DeviceCapabilities extends EngineCapabilities {
+  battery: BatteryProfile;
+  storage: StorageProfile;
+  sensors: SensorEntry[];
 }
 
 export interface CapabilityCardProps {
@@ -90,6 +107,16 @@ export interface RuntimeSignals {
   batteryState: BatteryState;
   usedStorage: number;
   hasPedometer: boolean;
+  measuredDrain?: MeasuredBatteryDrain;
+  batteryHealth?: BatteryHealthEstimate;
+  batteryCapacity?: BatteryCapacity;
+  cpuBenchmark?: MeasuredCpuBenchmark;
+  effectiveMemory?: EffectiveMemory;
+  storageThroughput?: MeasuredStorageThroughput;
+  storageCapacity?: StorageCapacity;
+  sustainedPerformance?: SustainedPerformance;
+  renderPerformance?: MeasuredRenderPerformance;
+  provenance?: FieldProvenance<RuntimeSignals>;
 }
 
 export interface DeviceContextType {
@@ -0,0 +1,77 @@
+import type { BatteryCapacity, BatteryCapacitySource, MeasuredBatteryDrain, Provenance } from '../capabilities/types';
+import type { DeviceInfo } from '../types';
+import { lookupDeviceSpec } from './deviceSpecs';
+
+export const DEFAULT_BATTERY_CAPACITY_MAH = 4000;
+
+// Plausible range for phone batteries; anything outside is a typo or bad inference
+export const MIN_BATTERY_CAPACITY_MAH = 1000;
+export const MAX_BATTERY_CAPACITY_MAH = 10000;
+
+// A capacity typed in by the user is a rated figure, as good as a spec sheet
+export const BATTERY_CAPACITY_PROVENANCE: Record<BatteryCapacitySource, Provenance> = {
+  user: 'spec',
+  table: 'spec',
+  measured: 'measured',
+  default: 'default',
+};
+
+// Measured drain needs this much confidence before it stands in for a capacity
+const MIN_INFERENCE_CONFIDENCE = 60;
+
+/**
+ * Battery capacity, in order of preference:
+ * user override, spec database, inferred from measured drain, default
+ */
+export function resolveBatteryCapacity(
+  info: Pick<DeviceInfo, 'brand' | 'model' | 'screenSize'>,
+  overrideMah?: number,
+  measuredDrain?: MeasuredBatteryDrain
+): BatteryCapacity {
+  if (overrideMah && isValidBatteryCapacity(overrideMah)) {
+    return { mAh: Math.round(overrideMah), source: 'user' };
+  }
+
+  const specMatch = lookupDeviceSpec(info.brand, info.model);
+  if (specMatch) {
+    return {
+      mAh: specMatch.spec.batteryMah,
+      source: 'table',
+      tableVersion: specMatch.version,
+      tableMatch: specMatch.matchedBy,
+    };
+  }
+
+  const inferred = inferCapacityFromDrain(info.screenSize, measuredDrain);
+  if (inferred) {
+    return { mAh: inferred, source: 'measured' };
+  }
+
+  return { mAh: DEFAULT_BATTERY_CAPACITY_MAH, source: 'default' };
+}
+
+/**
+ * Provenance of a resolved capacity; a fuzzy spec match may be a sibling model
+ */
+export function getBatteryCapacityProvenance(capacity: BatteryCapacity): Provenance {
+  if (capacity.source === 'table' && capacity.tableMatch === 'fuzzy') return 'heuristic';
+  return BATTERY_CAPACITY_PROVENANCE[capacity.source];
+}
+
+export function isValidBatteryCapacity(mAh: number): boolean {
+  return Number.isFinite(mAh) && mAh >= MIN_BATTERY_CAPACITY_MAH && mAh <= MAX_BATTERY_CAPACITY_MAH;
+}
+
+// A typical screen-on draw divided by the measured %/hour gives the tank size.
+// Rough, but better than a flat default once enough drain has been seen.
+function inferCapacityFromDrain(
+  screenSize: number,
+  measured?: MeasuredBatteryDrain
+): number | null {
+  if (!measured || measured.confidence < MIN_INFERENCE_CONFIDENCE) return null;
+  if (measured.screenOnPercentPerHour <= 0) return null;
+
+  const typicalDrawMa = 300 + 25 * screenSize; // ~450mA for a 6" screen
+  const mAh = Math.round(typicalDrawMa / (measured.screenOnPercentPerHour / 100) / 50) * 50;
+  return isValidBatteryCapacity(mAh) ? mAh : null;
+}
@@ -0,0 +1,228 @@
+import type { BatteryHealthEstimate, BatteryHealthGrade } from '../capabilities/types';
+import { batterySampler, BatterySample, isChargingState } from './batterySampler';
+import { chargingSessionTracker, ChargingSession } from './chargingSessions';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Intervals longer than this hide the shape of the curve
+const MAX_CURVE_INTERVAL = 2 * HOUR_MS;
+// Minimum observed charging time per band before the curve is trusted
+const MIN_BAND_HOURS = 0.25;
+// A drop this large this fast points at a worn cell sagging under load
+const SUDDEN_DROP_LEVEL = 0.05;
+const SUDDEN_DROP_MS = 10 * 60 * 1000;
+const MIN_DRAIN_INTERVAL_MS = 5 * 60 * 1000;
+
+type ChargeCurve = {
+  lowBandRate: number;           // %/hour between 20% and 50%
+  highBandRate: number;          // %/hour between 50% and 80%
+  hours: number;
+};
+
+type DrainStats = {
+  intervals: number;
+  variation: number | null;      // Coefficient of variation of screen-on drain rates
+  suddenDrops: number;
+};
+
+/**
+ * Battery Health Estimator
+ * Grades battery wear from how the charge curve bends, how steady
+ * the drain rate is and the charging session history, rather than
+ * from the current battery level.
+ */
+export function estimateBatteryHealth(
+  samples: BatterySample[],
+  sessions: ChargingSession[]
+): BatteryHealthEstimate {
+  const curve = analyzeChargeCurve(samples);
+  const drain = analyzeDrain(samples);
+
+  const hasEvidence = curve !== null || drain.intervals >= 10 || sessions.length >= 3;
+  if (!hasEvidence) {
+    return {
+      grade: 'Unknown',
+      confidence: 0,
+      explanation: 'Not enough charging history yet. Charge a few times with Phonefit open to estimate battery health.',
+    };
+  }
+
+  let score = 100;
+  const findings: string[] = [];
+
+  /* ---------- 1. CHARGE CURVE ---------- */
+
+  // Healthy cells charge at a near-constant rate up to ~80%; worn cells
+  // hit their voltage limit early and slow down well before that.
+  let chargeMinutes20to80: number | undefined;
+  if (curve) {
+    const ratio = curve.highBandRate / curve.lowBandRate;
+    chargeMinutes20to80 = Math.round(
+      30 / curve.lowBandRate * 60 + 30 / curve.highBandRate * 60
+    );
+
+    if (ratio < 0.5) {
+      score -= 35;
+      findings.push(`Charging slows sharply above 50% (${Math.round(ratio * 100)}% of the early rate), a common sign of wear.`);
+    } else if (ratio < 0.7) {
+      score -= 15;
+      findings.push('Charging slows somewhat before 80%.');
+    } else {
+      findings.push(`Charges from 20% to 80% in about ${chargeMinutes20to80} min at a steady rate.`);
+    }
+  }
+
+  /* ---------- 2. DRAIN CONSISTENCY ---------- */
+
+  if (drain.suddenDrops > 0) {
+    score -= Math.min(30, drain.suddenDrops * 10);
+    findings.push(`Saw ${drain.suddenDrops} sudden drop${drain.suddenDrops === 1 ? '' : 's'} of 5% or more within minutes.`);
+  }
+
+  if (drain.variation !== null) {
+    if (drain.variation > 1) {
+      score -= 10;
+      findings.push('Drain rate is erratic between sessions.');
+    } else if (drain.suddenDrops === 0) {
+      findings.push('Drain rate is consistent.');
+    }
+  }
+
+  /* ---------- 3. SESSION HISTORY ---------- */
+
+  if (sessions.length >= 3) {
+    const deepShare = sessions.filter(s => s.startLevel < 0.1).length / sessions.length;
+    if (deepShare >= 0.3) {
+      score -= 5;
+      findings.push('Frequent deep discharges add wear.');
+    }
+
+    const chargeTrend = compareChargeSpeed(sessions);
+    if (chargeTrend !== null && chargeTrend > 1.3) {
+      // Same charger filling a smaller tank faster
+      score -= 10;
+      findings.push('Recent charges finish noticeably faster than older ones, suggesting lost capacity.');
+    }
+  }
+
+  return {
+    grade: toGrade(score),
+    confidence: calculateConfidence(curve, drain, sessions.length),
+    explanation: findings.join(' ') || 'No signs of wear in the recorded history.',
+    chargeMinutes20to80,
+  };
+}
+
+/**
+ * Estimate from the recorded sampler and session history
+ */
+export async function getBatteryHealthEstimate(days = 30): Promise<BatteryHealthEstimate> {
+  const sinceMs = Date.now() - days * DAY_MS;
+  const [samples, sessions] = await Promise.all([
+    batterySampler.getSamples(sinceMs),
+    chargingSessionTracker.getSessions(sinceMs),
+  ]);
+  return estimateBatteryHealth(samples, sessions);
+}
+
+/* =======================
+   HELPERS
+======================= */
+
+function analyzeChargeCurve(samples: BatterySample[]): ChargeCurve | null {
+  const bands = {
+    low: { levelDelta: 0, ms: 0 },
+    high: { levelDelta: 0, ms: 0 },
+  };
+
+  for (let i = 1; i < samples.length; i++) {
+    const prev = samples[i - 1];
+    const next = samples[i];
+    const dt = next.timestamp - prev.timestamp;
+    if (dt <= 0 || dt > MAX_CURVE_INTERVAL) continue;
+    if (!isChargingState(prev.state) || !isChargingState(next.state)) continue;
+    if (next.level <= prev.level) continue;
+
+    const mid = (prev.level + next.level) / 2;
+    if (mid < 0.2 || mid > 0.8) continue;
+
+    const band = mid < 0.5 ? bands.low : bands.high;
+    band.levelDelta += next.level - prev.level;
+    band.ms += dt;
+  }
+
+  const lowHours = bands.low.ms / HOUR_MS;
+  const highHours = bands.high.ms / HOUR_MS;
+  if (lowHours < MIN_BAND_HOURS || highHours < MIN_BAND_HOURS) return null;
+
+  return {
+    lowBandRate: bands.low.levelDelta * 100 / lowHours,
+    highBandRate: bands.high.levelDelta * 100 / highHours,
+    hours: lowHours + highHours,
+  };
+}
+
+function analyzeDrain(samples: BatterySample[]): DrainStats {
+  const rates: number[] = [];
+  let suddenDrops = 0;
+
+  for (let i = 1; i < samples.length; i++) {
+    const prev = samples[i - 1];
+    const next = samples[i];
+    const dt = next.timestamp - prev.timestamp;
+    if (dt <= 0 || dt > MAX_CURVE_INTERVAL) continue;
+    if (isChargingState(prev.state) || isChargingState(next.state)) continue;
+
+    const drop = prev.level - next.level;
+    if (drop >= SUDDEN_DROP_LEVEL && dt <= SUDDEN_DROP_MS) suddenDrops++;
+
+    if (prev.screenOn && dt >= MIN_DRAIN_INTERVAL_MS && drop >= 0) {
+      rates.push(drop * 100 / (dt / HOUR_MS));
+    }
+  }
+
+  let variation: number | null = null;
+  if (rates.length >= 5) {
+    const mean = rates.reduce((sum, r) => sum + r, 0) / rates.length;
+    const variance = rates.reduce((sum, r) => sum + (r - mean) ** 2, 0) / rates.length;
+    variation = mean > 0 ? Math.sqrt(variance) / mean : null;
+  }
+
+  return { intervals: rates.length, variation, suddenDrops };
+}
+
+// Ratio of recent to older charge speed, or null without enough sessions
+function compareChargeSpeed(sessions: ChargingSession[]): number | null {
+  const speeds = sessions
+    .filter(s => s.durationMinutes >= 15 && s.percentPerHour > 0)
+    .map(s => s.percentPerHour);
+  if (speeds.length < 6) return null;
+
+  const half = Math.floor(speeds.length / 2);
+  const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+  };
+  const older = median(speeds.slice(0, half));
+  return older > 0 ? median(speeds.slice(half)) / older : null;
+}
+
+function calculateConfidence(
+  curve: ChargeCurve | null,
+  drain: DrainStats,
+  sessionCount: number
+): number {
+  let confidence = 20;
+  if (curve) confidence += Math.min(40, curve.hours * 20);
+  confidence += Math.min(20, drain.intervals);
+  confidence += Math.min(15, sessionCount * 3);
+  return Math.round(Math.min(90, confidence));
+}
+
+function toGrade(score: number): BatteryHealthGrade {
+  if (score >= 85) return 'Excellent';
+  if (score >= 70) return 'Good';
+  if (score >= 50) return 'Fair';
+  return 'Poor';
+}
@@ -0,0 +1,313 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Battery from 'expo-battery';
+import { AppState, AppStateStatus } from 'react-native';
+import type { MeasuredBatteryDrain } from '../capabilities/types';
+
+const STORAGE_KEY = '@phonefit_battery_samples';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface BatterySample {
+  timestamp: number;
+  level: number;                 // 0-1
+  state: Battery.BatteryState;
+  screenOn: boolean;             // App in the foreground
+}
+
+export type DrainMode = 'screenOn' | 'idle' | 'charging';
+
+export interface DrainRate {
+  percentPerHour: number;        // Drain for screenOn/idle, gain for charging
+  hours: number;                 // Observed time behind the rate
+  intervals: number;
+}
+
+export interface BatteryDrainProfile {
+  screenOn: DrainRate | null;
+  idle: DrainRate | null;
+  charging: DrainRate | null;
+  sampleCount: number;
+  confidence: number;            // 0-100
+}
+
+export interface ChargingSpan {
+  start: number;
+  end: number;
+}
+
+export const isChargingState = (state: Battery.BatteryState) =>
+  state === Battery.BatteryState.CHARGING || state === Battery.BatteryState.FULL;
+
+/**
+ * Battery Sampler
+ * Records battery level and state over time from expo-battery listeners,
+ * app state changes and foreground refreshes, and turns the samples into
+ * measured drain rates.
+ *
+ * "Screen on" means Phonefit is in the foreground; time in the background
+ * counts as idle even if another app is on screen.
+ */
+export class BatterySampler {
+  private samples: BatterySample[] = [];
+  private loadPromise: Promise<void> | null = null;
+  private subscriptions: { remove: () => void }[] = [];
+  private listeners = new Set<(sample: BatterySample) => void>();
+  private lastState: Battery.BatteryState = Battery.BatteryState.UNKNOWN;
+  private lastLevel = -1;
+
+  private readonly MAX_SAMPLES = 2000;
+  // Gaps longer than this are unobserved (app killed, phone off)
+  private readonly MAX_INTERVAL = 6 * HOUR_MS;
+  // Minimum observed time before a rate is reported
+  private readonly MIN_RATE_HOURS = 0.25;
+
+  /* =======================
+     LISTENERS
+  ======================= */
+
+  start(): void {
+    if (this.subscriptions.length) return;
+
+    this.subscriptions.push(
+      Battery.addBatteryLevelListener(({ batteryLevel }) => {
+        this.recordSample(batteryLevel, this.lastState);
+      }),
+      Battery.addBatteryStateListener(({ batteryState }) => {
+        this.recordSample(this.lastLevel, batteryState);
+      }),
+      AppState.addEventListener('change', (nextState: AppStateStatus) => {
+        if (nextState === 'active' || nextState === 'background') {
+          this.recordSample();
+        }
+      })
+    );
+  }
+
+  stop(): void {
+    this.subscriptions.forEach(sub => sub.remove());
+    this.subscriptions = [];
+  }
+
+  /**
+   * Get notified of every recorded sample
+   */
+  addSampleListener(listener: (sample: BatterySample) => void): { remove: () => void } {
+    this.listeners.add(listener);
+    return { remove: () => this.listeners.delete(listener) };
+  }
+
+  /* =======================
+     RECORDING
+  ======================= */
+
+  /**
+   * Record a sample; missing level/state are read from the device
+   */
+  async recordSample(level?: number, state?: Battery.BatteryState): Promise<void> {
+    try {
+      const resolvedLevel = level !== undefined && level >= 0
+        ? level
+        : await Battery.getBatteryLevelAsync();
+      const resolvedState = state !== undefined && state !== Battery.BatteryState.UNKNOWN
+        ? state
+        : await Battery.getBatteryStateAsync();
+
+      if (resolvedLevel < 0) return; // Simulator / unavailable
+
+      this.lastLevel = resolvedLevel;
+      this.lastState = resolvedState;
+
+      await this.load();
+      const sample: BatterySample = {
+        timestamp: Date.now(),
+        level: resolvedLevel,
+        state: resolvedState,
+        screenOn: AppState.currentState === 'active',
+      };
+      this.samples.push(sample);
+      if (this.samples.length > this.MAX_SAMPLES) {
+        this.samples = this.samples.slice(-this.MAX_SAMPLES);
+      }
+      await this.save();
+
+      this.listeners.forEach(listener => listener(sample));
+    } catch (e) {
+      console.warn('Failed to record battery sample', e);
+    }
+  }
+
+  /* =======================
+     QUERIES
+  ======================= */
+
+  async getSamples(sinceMs?: number): Promise<BatterySample[]> {
+    await this.load();
+    if (sinceMs === undefined) return [...this.samples];
+    return this.samples.filter(s => s.timestamp >= sinceMs);
+  }
+
+  /**
+   * Measured %/hour per mode over the window
+   */
+  async getDrainProfile(days = 7): Promise<BatteryDrainProfile> {
+    const samples = await this.getSamples(Date.now() - days * DAY_MS);
+
+    const totals: Record<DrainMode, { levelDelta: number; ms: number; intervals: number }> = {
+      screenOn: { levelDelta: 0, ms: 0, intervals: 0 },
+      idle: { levelDelta: 0, ms: 0, intervals: 0 },
+      charging: { levelDelta: 0, ms: 0, intervals: 0 },
+    };
+
+    for (let i = 1; i < samples.length; i++) {
+      const prev = samples[i - 1];
+      const next = samples[i];
+      const dt = next.timestamp - prev.timestamp;
+      if (dt <= 0 || dt > this.MAX_INTERVAL) continue;
+
+      // The interval belongs to the mode the phone was in when it started
+      const mode: DrainMode = isChargingState(prev.state)
+        ? 'charging'
+        : prev.screenOn ? 'screenOn' : 'idle';
+
+      // A plug/unplug mid-interval makes the delta meaningless
+      if (isChargingState(prev.state) !== isChargingState(next.state)) continue;
+
+      totals[mode].levelDelta += next.level - prev.level;
+      totals[mode].ms += dt;
+      totals[mode].intervals++;
+    }
+
+    const toRate = (mode: DrainMode): DrainRate | null => {
+      const { levelDelta, ms, intervals } = totals[mode];
+      const hours = ms / HOUR_MS;
+      if (hours < this.MIN_RATE_HOURS) return null;
+
+      const percent = levelDelta * 100;
+      return {
+        percentPerHour: mode === 'charging' ? percent / hours : -percent / hours,
+        hours,
+        intervals,
+      };
+    };
+
+    const screenOn = toRate('screenOn');
+
+    return {
+      screenOn,
+      idle: toRate('idle'),
+      charging: toRate('charging'),
+      sampleCount: samples.length,
+      confidence: this.calculateConfidence(screenOn),
+    };
+  }
+
+  /**
+   * Drain signal for the capability engine, or undefined until
+   * enough screen-on time has been observed
+   */
+  async getMeasuredDrain(): Promise<MeasuredBatteryDrain | undefined> {
+    const profile = await this.getDrainProfile();
+    if (!profile.screenOn || profile.screenOn.percentPerHour <= 0) return undefined;
+
+    return {
+      screenOnPercentPerHour: Math.round(profile.screenOn.percentPerHour * 10) / 10,
+      idlePercentPerHour: profile.idle
+        ? Math.round(profile.idle.percentPerHour * 10) / 10
+        : undefined,
+      samples: profile.sampleCount,
+      confidence: profile.confidence,
+    };
+  }
+
+  /**
+   * Periods where samples saw the battery charging
+   */
+  async getChargingSpans(sinceMs: number): Promise<ChargingSpan[]> {
+    const samples = await this.getSamples(sinceMs);
+    const spans: ChargingSpan[] = [];
+    let current: ChargingSpan | null = null;
+
+    for (const sample of samples) {
+      if (isChargingState(sample.state)) {
+        if (current) current.end = sample.timestamp;
+        else current = { start: sample.timestamp, end: sample.timestamp };
+      } else if (current) {
+        // Charging stopped somewhere before this sample
+        current.end = sample.timestamp;
+        spans.push(current);
+        current = null;
+      }
+    }
+    if (current) {
+      current.end = Date.now();
+      spans.push(current);
+    }
+
+    return spans;
+  }
+
+  /* =======================
+     PRUNING
+  ======================= */
+
+  /**
+   * Samples recorded before the cutoff and their stored size, for a cleanup preview
+   */
+  async measureBefore(cutoffMs: number): Promise<{ entries: number; bytes: number }> {
+    await this.load();
+    const old = this.samples.filter(s => s.timestamp < cutoffMs);
+    return { entries: old.length, bytes: old.length ? JSON.stringify(old).length : 0 };
+  }
+
+  /**
+   * Drop samples recorded before the cutoff; returns how many went
+   */
+  async pruneBefore(cutoffMs: number): Promise<number> {
+    await this.load();
+    const kept = this.samples.filter(s => s.timestamp >= cutoffMs);
+    const removed = this.samples.length - kept.length;
+    if (removed > 0) {
+      this.samples = kept;
+      await this.save();
+    }
+    return removed;
+  }
+
+  /* =======================
+     HELPERS
+  ======================= */
+
+  // 40 with the minimum observation, approaching 95 after ~10 screen-on hours
+  private calculateConfidence(screenOn: DrainRate | null): number {
+    if (!screenOn) return 0;
+    const growth = 1 - Math.exp(-screenOn.hours / 4);
+    const intervalBonus = Math.min(5, screenOn.intervals / 20);
+    return Math.round(Math.min(95, 40 + growth * 50 + intervalBonus));
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) this.loadPromise = this.readFromStorage();
+    return this.loadPromise;
+  }
+
+  private async readFromStorage() {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      const parsed = stored ? JSON.parse(stored) : [];
+      this.samples = Array.isArray(parsed) ? parsed : [];
+    } catch {
+      this.samples = [];
+    }
+  }
+
+  private async save() {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.samples));
+    } catch (e) {
+      console.warn('Failed to save battery samples', e);
+    }
+  }
+}
+
+export const batterySampler = new BatterySampler();
@@ -0,0 +1,105 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { BenchmarkOutcome, BenchmarkTestId } from './benchmarkSuite';
+
+const STORAGE_KEY = '@phonefit_benchmark_history';
+
+export interface BenchmarkRunRecord extends BenchmarkOutcome {
+  testId: BenchmarkTestId;
+  timestamp: number;
+  heuristicTier: number | null;  // Heuristic tier for the measured signal at run time; null when none compares
+}
+
+export interface BenchmarkComparison {
+  latest: BenchmarkRunRecord;
+  previous: BenchmarkRunRecord | null;
+  valueDelta: number | null;     // latest - previous, in the test's unit
+  percentDelta: number | null;   // Relative to the previous run
+  tierDelta: number | null;      // Measured tier - heuristic tier; positive means better than guessed
+}
+
+/**
+ * Benchmark History
+ * Every manual or suite run, per test, so results can be compared
+ * against the previous run and against the heuristic tier
+ */
+export class BenchmarkHistory {
+  private runs: BenchmarkRunRecord[] = [];
+  private loadPromise: Promise<void> | null = null;
+
+  private readonly MAX_RUNS_PER_TEST = 20;
+
+  async record(run: BenchmarkRunRecord): Promise<void> {
+    await this.load();
+    this.runs.push(run);
+
+    const forTest = this.runs.filter(r => r.testId === run.testId);
+    if (forTest.length > this.MAX_RUNS_PER_TEST) {
+      const oldest = forTest[0];
+      this.runs = this.runs.filter(r => r !== oldest);
+    }
+
+    await this.save();
+  }
+
+  /**
+   * Runs newest first, optionally for one test
+   */
+  async getRuns(testId?: BenchmarkTestId): Promise<BenchmarkRunRecord[]> {
+    await this.load();
+    const runs = testId ? this.runs.filter(r => r.testId === testId) : this.runs;
+    return [...runs].sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  async getComparison(testId: BenchmarkTestId): Promise<BenchmarkComparison | null> {
+    const [latest, previous = null] = await this.getRuns(testId);
+    if (!latest) return null;
+
+    const valueDelta = previous ? Math.round((latest.value - previous.value) * 10) / 10 : null;
+    const percentDelta = previous && previous.value !== 0
+      ? Math.round(((latest.value - previous.value) / previous.value) * 100)
+      : null;
+
+    return {
+      latest,
+      previous,
+      valueDelta,
+      percentDelta,
+      tierDelta: latest.heuristicTier === null ? null : latest.impliedTier - latest.heuristicTier,
+    };
+  }
+
+  async clear(): Promise<void> {
+    this.runs = [];
+    this.loadPromise = Promise.resolve();
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  }
+
+  /* =======================
+     HELPERS
+  ======================= */
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) this.loadPromise = this.readFromStorage();
+    return this.loadPromise;
+  }
+
+  private async readFromStorage() {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      const parsed = stored ? JSON.parse(stored) : [];
+      this.runs = Array.isArray(parsed) ? parsed : [];
+    } catch {
+      this.runs = [];
+    }
+  }
+
+  private async save() {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.runs));
+    } catch (e) {
+      console.warn('Failed to save benchmark history', e);
+    }
+  }
+}
+
+export const benchmarkHistory = new BenchmarkHistory();
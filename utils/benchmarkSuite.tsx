@@ -0,0 +1,239 @@
+import type { DeviceInfo } from '../capabilities/types';
+import { calculatePerformanceCapability } from '../capabilities/performanceCapability';
+import { BenchmarkCancelledError, BenchmarkRunOptions, throwIfCancelled } from './benchmarkUtils';
+import { benchmarkHistory, BenchmarkRunRecord } from './benchmarkHistory';
+import { cpuBenchmark } from './cpuBenchmark';
+import { memoryProbe } from './memoryProbe';
+import { refreshRateProbe } from './refreshRateProbe';
+import { renderBenchmark } from './renderBenchmark';
+import { storageBenchmark } from './storageBenchmark';
+import { sustainedBenchmark } from './sustainedBenchmark';
+
+export type BenchmarkTestId = 'cpu' | 'storage' | 'memory' | 'refreshRate' | 'render' | 'sustained';
+
+export interface BenchmarkOutcome {
+  value: number;                 // Headline metric; higher is better for every test
+  unit: string;
+  summary: string;
+  impliedTier: number;           // 1-5, on the same scale as the performance tier
+}
+
+export interface BenchmarkTest {
+  id: BenchmarkTestId;
+  title: string;
+  icon: string;
+  description: string;
+  estimatedSeconds: number;
+  run: (options: BenchmarkRunOptions, deviceInfo: DeviceInfo) => Promise<BenchmarkOutcome>;
+  // Tier the heuristics give for the signal this test measures; absent when
+  // no guess exists on a comparable scale, so there is no "vs estimate"
+  estimateTier?: (deviceInfo: DeviceInfo) => number | null;
+}
+
+const MB = 1024 * 1024;
+
+// Maps a metric onto tiers 1-5 given ascending thresholds for tiers 2-5
+const tierFromThresholds = (value: number, thresholds: [number, number, number, number]) =>
+  1 + thresholds.filter(threshold => value >= threshold).length;
+
+// Same cut-offs the performance capability uses for the CPU score
+const CPU_TIER_THRESHOLDS: [number, number, number, number] = [40, 70, 100, 150];
+const REFRESH_RATE_TIER_THRESHOLDS: [number, number, number, number] = [60, 90, 120, 144];
+
+/* =======================
+   TEST REGISTRY
+======================= */
+
+export const BENCHMARK_TESTS: BenchmarkTest[] = [
+  {
+    id: 'cpu',
+    title: 'CPU Benchmark',
+    icon: 'hardware-chip-outline',
+    description: 'Measure your processor instead of guessing from the model',
+    estimatedSeconds: 3,
+    run: async options => {
+      const result = await cpuBenchmark.run(options);
+      return {
+        value: result.score,
+        unit: 'pts',
+        summary: `Score ${result.score} (100 = mid-range phone)`,
+        impliedTier: tierFromThresholds(result.score, CPU_TIER_THRESHOLDS),
+      };
+    },
+    estimateTier: deviceInfo => getHeuristicTier(deviceInfo),
+  },
+  {
+    id: 'storage',
+    title: 'Storage Speed',
+    icon: 'save-outline',
+    description: 'Write and read test files to check recording headroom',
+    estimatedSeconds: 10,
+    run: async options => {
+      const result = await storageBenchmark.run(options);
+      return {
+        value: result.sequentialWriteMBps,
+        unit: 'MB/s',
+        summary:
+          `${result.synced ? '' : 'Up to: '}Write ${result.sequentialWriteMBps} MB/s · ` +
+          `Read ${result.sequentialReadMBps} MB/s · Sustained ${result.sustainedWriteMBps} MB/s`,
+        impliedTier: tierFromThresholds(result.sequentialWriteMBps, [30, 80, 200, 400]),
+      };
+    },
+  },
+  {
+    id: 'memory',
+    title: 'Usable Memory',
+    icon: 'layers-outline',
+    description: 'Allocate memory until the system pushes back, then free it',
+    estimatedSeconds: 5,
+    run: async (options, deviceInfo) => {
+      const sample = await memoryProbe.measure({ ...options, totalMemory: deviceInfo.totalMemory });
+      const availableMB = Math.round(sample.bytes / MB);
+      return {
+        value: availableMB,
+        unit: 'MB',
+        summary: `${sample.stoppedBy === 'cap' ? 'At least ' : ''}${availableMB} MB usable right now`,
+        impliedTier: tierFromThresholds(availableMB, [256, 384, 512, 640]),
+      };
+    },
+  },
+  {
+    id: 'refreshRate',
+    title: 'Refresh Rate',
+    icon: 'pulse-outline',
+    description: 'Time rendered frames to find the rate your display really runs at',
+    estimatedSeconds: 2,
+    run: async options => {
+      const result = await refreshRateProbe.measure(options);
+      return {
+        value: result.peakHz,
+        unit: 'Hz',
+        summary: `Peak ${result.peakHz}Hz · typical ${result.typicalHz}Hz${result.variable ? ' · variable' : ''}`,
+        impliedTier: tierFromThresholds(result.peakHz, REFRESH_RATE_TIER_THRESHOLDS),
+      };
+    },
+    // The spec or model-name rate, until a probe has replaced it
+    estimateTier: deviceInfo =>
+      deviceInfo.refreshRate === undefined || deviceInfo.provenance?.refreshRate === 'measured'
+        ? null
+        : tierFromThresholds(deviceInfo.refreshRate, REFRESH_RATE_TIER_THRESHOLDS),
+  },
+  {
+    id: 'render',
+    title: 'Rendering',
+    icon: 'color-palette-outline',
+    description: 'Animate more and more shapes to find where frame rates drop',
+    estimatedSeconds: 15,
+    run: async (options, deviceInfo) => {
+      // A guessed rate would misjudge dropped frames; without a probe only frame times count
+      const displayHz = deviceInfo.provenance?.refreshRate === 'measured' ? deviceInfo.refreshRate : undefined;
+      const result = await renderBenchmark.run({ ...options, displayHz });
+      return {
+        value: result.held60Elements,
+        unit: 'shapes',
+        summary:
+          `60fps up to ${result.held60Elements} shapes · 30fps up to ${result.held30Elements} shapes`,
+        impliedTier: tierFromThresholds(result.held60Elements, [10, 50, 100, 200]),
+      };
+    },
+  },
+  {
+    id: 'sustained',
+    title: 'Sustained Performance',
+    icon: 'thermometer-outline',
+    description: 'Load the CPU for 3 minutes to see how much it throttles when hot',
+    estimatedSeconds: 180,
+    run: async options => {
+      const result = await sustainedBenchmark.run(options);
+      const retainedPercent = Math.round(result.ratio * 100);
+      return {
+        value: retainedPercent,
+        unit: '%',
+        summary:
+          `Keeps ${retainedPercent}% of peak` +
+          (result.batteryDrainPercentPerHour !== undefined
+            ? ` · ${result.batteryDrainPercentPerHour}%/h drain`
+            : ''),
+        // The tier the CPU behaves like once hot
+        impliedTier: tierFromThresholds(result.sustainedScore, CPU_TIER_THRESHOLDS),
+      };
+    },
+    estimateTier: deviceInfo => getHeuristicTier(deviceInfo),
+  },
+];
+
+export const getBenchmarkTest = (id: BenchmarkTestId) =>
+  BENCHMARK_TESTS.find(test => test.id === id);
+
+/* =======================
+   RUNNERS
+======================= */
+
+/**
+ * Performance tier the heuristics alone assign, without any measured signals
+ */
+export function getHeuristicTier(deviceInfo: DeviceInfo): number {
+  return calculatePerformanceCapability(deviceInfo).tier;
+}
+
+/**
+ * Run one test and add the outcome to the history
+ */
+export async function runBenchmarkTest(
+  test: BenchmarkTest,
+  deviceInfo: DeviceInfo,
+  options: BenchmarkRunOptions = {}
+): Promise<BenchmarkRunRecord> {
+  const outcome = await test.run(options, deviceInfo);
+  const record: BenchmarkRunRecord = {
+    ...outcome,
+    testId: test.id,
+    timestamp: Date.now(),
+    heuristicTier: test.estimateTier?.(deviceInfo) ?? null,
+  };
+  await benchmarkHistory.record(record);
+  return record;
+}
+
+/**
+ * Run several tests back to back. Progress covers the whole suite and the
+ * stage names the current test. A failing test is reported through
+ * onTestError and skipped; cancelling stops the suite.
+ */
+export async function runBenchmarkSuite(
+  tests: BenchmarkTest[],
+  deviceInfo: DeviceInfo,
+  options: BenchmarkRunOptions & {
+    onTestStart?: (test: BenchmarkTest) => void;
+    onTestError?: (test: BenchmarkTest, error: unknown) => void;
+  } = {}
+): Promise<BenchmarkRunRecord[]> {
+  const { signal, onProgress, onTestStart, onTestError } = options;
+  const totalSeconds = tests.reduce((sum, test) => sum + test.estimatedSeconds, 0);
+  const records: BenchmarkRunRecord[] = [];
+  let doneSeconds = 0;
+
+  for (const test of tests) {
+    throwIfCancelled(signal);
+    onTestStart?.(test);
+
+    try {
+      records.push(await runBenchmarkTest(test, deviceInfo, {
+        signal,
+        onProgress: (progress, stage) => onProgress?.(
+          (doneSeconds + progress * test.estimatedSeconds) / totalSeconds,
+          `${test.title}: ${stage}`
+        ),
+      }));
+    } catch (error) {
+      if (error instanceof BenchmarkCancelledError) throw error;
+      console.warn(`${test.title} failed during the suite:`, error);
+      onTestError?.(test, error);
+    }
+
+    doneSeconds += test.estimatedSeconds;
+  }
+
+  onProgress?.(1, 'done');
+  return records;
+}
@@ -0,0 +1,31 @@
+import Constants from 'expo-constants';
+
+export class BenchmarkCancelledError extends Error {
+  constructor() {
+    super('Benchmark cancelled');
+    this.name = 'BenchmarkCancelledError';
+  }
+}
+
+export interface BenchmarkRunOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: number, stage: string) => void; // progress is 0-1
+}
+
+export function throwIfCancelled(signal?: AbortSignal) {
+  if (signal?.aborted) throw new BenchmarkCancelledError();
+}
+
+/**
+ * Let the UI thread render and handle touches between work slices
+ */
+export function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/**
+ * Cached results are only valid for the app version that produced them
+ */
+export function getAppVersion(): string {
+  return Constants.expoConfig?.version ?? 'unknown';
+}
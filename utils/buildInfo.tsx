@@ -0,0 +1,51 @@
+import { NativeModules, Platform } from 'react-native';
+
+export interface AndroidBuildInfo {
+  socManufacturer?: string;      // Build.SOC_MANUFACTURER (API 31+)
+  socModel?: string;             // Build.SOC_MODEL (API 31+), e.g. "SM8550"
+  hardware?: string;             // Build.HARDWARE, e.g. "qcom" or "s5e8835"
+  board?: string;                // Build.BOARD, e.g. "kalama"
+}
+
+// Constants exported by the PhonefitBuildInfo native module (android/.../BuildInfoModule.kt)
+interface BuildInfoModule {
+  getConstants?: () => Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+const asText = (value: unknown) =>
+  typeof value === 'string' && value.trim() && value !== 'unknown' ? value.trim() : undefined;
+
+let cached: AndroidBuildInfo | null | undefined;
+
+/**
+ * Android Build fields that expo-device doesn't expose.
+ * Read from the PhonefitBuildInfo native module that MainApplication
+ * registers; null on iOS and in Expo Go, which don't ship it.
+ */
+export function getAndroidBuildInfo(): AndroidBuildInfo | null {
+  if (cached !== undefined) return cached;
+  cached = readBuildInfo();
+  return cached;
+}
+
+function readBuildInfo(): AndroidBuildInfo | null {
+  if (Platform.OS !== 'android') return null;
+
+  const module = NativeModules.PhonefitBuildInfo as BuildInfoModule | undefined;
+  if (!module) return null;
+
+  try {
+    const constants = module.getConstants?.() ?? module;
+    const info: AndroidBuildInfo = {
+      socManufacturer: asText(constants.SOC_MANUFACTURER),
+      socModel: asText(constants.SOC_MODEL),
+      hardware: asText(constants.HARDWARE),
+      board: asText(constants.BOARD),
+    };
+    return Object.values(info).some(Boolean) ? info : null;
+  } catch (error) {
+    console.warn('Could not read Android build info:', error);
+    return null;
+  }
+}
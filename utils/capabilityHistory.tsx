@@ -0,0 +1,292 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { DeviceCapabilities, RuntimeSignals } from '../types';
+import { CapabilityId, getCapabilityDefinition, resolveCapabilityOrder } from '../capabilities/capabilityRegistry';
+import { linearRegression, TrendPoint } from './trendMath';
+
+const STORAGE_KEY = '@phonefit_capability_history';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Only what the trend queries read; full results carry curves, mode
+// matrices and explanations that would push the key past Android's
+// ~2 MB per-row limit long before MAX_SNAPSHOTS
+export interface CapabilitySummary {
+  tier: number;
+  score: number;
+  confidence: number;
+}
+
+export interface CapabilitySnapshot {
+  timestamp: number;
+  runtime: Partial<Pick<RuntimeSignals, RuntimeTrendSignal>>;
+  capabilities: Partial<Record<CapabilityId, CapabilitySummary>>;
+}
+
+export type TrendDirection = 'improving' | 'stable' | 'declining';
+
+export interface CapabilityTrend {
+  id: CapabilityId;
+  title: string;
+  points: { timestamp: number; tier: number; score: number }[];
+  firstTier: number | null;
+  lastTier: number | null;
+  scoreSlopePerDay: number;
+  direction: TrendDirection;
+}
+
+export interface RuntimeTrend {
+  signal: RuntimeTrendSignal;
+  points: { timestamp: number; value: number }[];
+  slopePerDay: number;     // units of the signal per day (bytes, or 0-1 battery level)
+  direction: TrendDirection;
+}
+
+export type RuntimeTrendSignal = 'freeStorage' | 'batteryLevel';
+
+export interface FitnessSummary {
+  days: number;
+  snapshotCount: number;
+  declining: CapabilityTrend[];
+  improving: CapabilityTrend[];
+  isLessFit: boolean;
+  message: string | null;
+}
+
+/**
+ * Capability History
+ * Bounded ring buffer of capability snapshots in AsyncStorage,
+ * with trend queries over the recorded results
+ */
+export class CapabilityHistory {
+  private snapshots: CapabilitySnapshot[] = [];
+  private loadPromise: Promise<void> | null = null;
+
+  private readonly MAX_SNAPSHOTS = 200;
+  // Startup fires both the initial load and an 'active' refresh
+  private readonly MIN_RECORD_INTERVAL = 60 * 1000;
+  // Score change per day that counts as a real trend
+  private readonly SCORE_TREND_THRESHOLD = 1;
+  // Days between the first and last daily average before a slope is trusted;
+  // a few refreshes in one afternoon would otherwise read as a steep trend
+  private readonly MIN_TREND_SPAN_DAYS = 2;
+
+  /* =======================
+     RECORDING
+  ======================= */
+
+  async record(caps: DeviceCapabilities, runtime: RuntimeSignals): Promise<void> {
+    await this.load();
+
+    const now = Date.now();
+    const last = this.snapshots[this.snapshots.length - 1];
+    if (last && now - last.timestamp < this.MIN_RECORD_INTERVAL) return;
+
+    const capabilities: CapabilitySnapshot['capabilities'] = {};
+    for (const { id } of resolveCapabilityOrder()) {
+      const result = caps[id];
+      if (result) capabilities[id] = { tier: result.tier, score: result.score, confidence: result.confidence };
+    }
+
+    this.snapshots.push({
+      timestamp: now,
+      runtime: { freeStorage: runtime.freeStorage, batteryLevel: runtime.batteryLevel },
+      capabilities,
+    });
+    if (this.snapshots.length > this.MAX_SNAPSHOTS) {
+      this.snapshots = this.snapshots.slice(-this.MAX_SNAPSHOTS);
+    }
+
+    await this.save();
+  }
+
+  async clear(): Promise<void> {
+    this.snapshots = [];
+    this.loadPromise = Promise.resolve();
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  }
+
+  /* =======================
+     QUERIES
+  ======================= */
+
+  async getSnapshots(sinceMs?: number): Promise<CapabilitySnapshot[]> {
+    await this.load();
+    if (sinceMs === undefined) return [...this.snapshots];
+    return this.snapshots.filter(s => s.timestamp >= sinceMs);
+  }
+
+  async getCapabilityTrend(id: CapabilityId, days = 7): Promise<CapabilityTrend> {
+    const snapshots = await this.getSnapshots(Date.now() - days * DAY_MS);
+
+    const points = snapshots
+      .map(s => s.capabilities[id])
+      .map((result, i) => result && {
+        timestamp: snapshots[i].timestamp,
+        tier: result.tier,
+        score: result.score,
+      })
+      .filter((p): p is CapabilityTrend['points'][number] => !!p);
+
+    const slope = this.dailySlope(points.map(p => ({ timestamp: p.timestamp, value: p.score })));
+
+    return {
+      id,
+      title: getCapabilityDefinition(id)?.display.title ?? id,
+      points,
+      firstTier: points[0]?.tier ?? null,
+      lastTier: points[points.length - 1]?.tier ?? null,
+      scoreSlopePerDay: slope,
+      direction: this.toDirection(slope, this.SCORE_TREND_THRESHOLD),
+    };
+  }
+
+  async getRuntimeSeries(
+    signal: RuntimeTrendSignal,
+    sinceMs: number
+  ): Promise<RuntimeTrend['points']> {
+    const snapshots = await this.getSnapshots(sinceMs);
+    return snapshots
+      .map(s => ({ timestamp: s.timestamp, value: s.runtime[signal] }))
+      .filter((p): p is RuntimeTrend['points'][number] => typeof p.value === 'number');
+  }
+
+  async getRuntimeTrend(signal: RuntimeTrendSignal, days = 30): Promise<RuntimeTrend> {
+    const points = await this.getRuntimeSeries(signal, Date.now() - days * DAY_MS);
+
+    const slope = this.dailySlope(points);
+
+    // Ignore noise below 100MB/day of storage or 1%/day of battery
+    const threshold = signal === 'freeStorage' ? 100 * 1024 * 1024 : 0.01;
+
+    return {
+      signal,
+      points,
+      slopePerDay: slope,
+      direction: this.toDirection(slope, threshold),
+    };
+  }
+
+  /**
+   * Is the phone getting "less fit" over the window?
+   */
+  async getFitnessSummary(days = 7): Promise<FitnessSummary> {
+    const snapshots = await this.getSnapshots(Date.now() - days * DAY_MS);
+    const trends = await Promise.all(
+      resolveCapabilityOrder().map(({ id }) => this.getCapabilityTrend(id, days))
+    );
+
+    const declining = trends.filter(t => t.direction === 'declining');
+    const improving = trends.filter(t => t.direction === 'improving');
+    const isLessFit = snapshots.length >= 3 && declining.length > improving.length;
+
+    return {
+      days,
+      snapshotCount: snapshots.length,
+      declining,
+      improving,
+      isLessFit,
+      message: isLessFit
+        ? `${declining.map(t => t.title).join(', ')} dropped over the last ${days} days`
+        : null,
+    };
+  }
+
+  /* =======================
+     PRUNING
+  ======================= */
+
+  /**
+   * Snapshots recorded before the cutoff and their stored size, for a cleanup preview
+   */
+  async measureBefore(cutoffMs: number): Promise<{ entries: number; bytes: number }> {
+    await this.load();
+    const old = this.snapshots.filter(s => s.timestamp < cutoffMs);
+    return { entries: old.length, bytes: old.length ? JSON.stringify(old).length : 0 };
+  }
+
+  /**
+   * Drop snapshots recorded before the cutoff; returns how many went
+   */
+  async pruneBefore(cutoffMs: number): Promise<number> {
+    await this.load();
+    const kept = this.snapshots.filter(s => s.timestamp >= cutoffMs);
+    const removed = this.snapshots.length - kept.length;
+    if (removed > 0) {
+      this.snapshots = kept;
+      await this.save();
+    }
+    return removed;
+  }
+
+  /* =======================
+     PERSISTENCE
+  ======================= */
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) this.loadPromise = this.readFromStorage();
+    return this.loadPromise;
+  }
+
+  private async readFromStorage() {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      const parsed = stored ? JSON.parse(stored) : [];
+      this.snapshots = Array.isArray(parsed) ? parsed.map(s => this.compact(s)) : [];
+    } catch (e) {
+      console.warn('Failed to read capability history; starting over', e);
+      this.snapshots = [];
+    }
+  }
+
+  // Reduces snapshots stored with full results to the summary shape
+  private compact(snapshot: any): CapabilitySnapshot {
+    const capabilities: CapabilitySnapshot['capabilities'] = {};
+    for (const [id, result] of Object.entries<any>(snapshot.capabilities ?? {})) {
+      if (typeof result?.tier !== 'number' || typeof result?.score !== 'number') continue;
+      capabilities[id as CapabilityId] = { tier: result.tier, score: result.score, confidence: result.confidence ?? 0 };
+    }
+    return {
+      timestamp: snapshot.timestamp,
+      runtime: { freeStorage: snapshot.runtime?.freeStorage, batteryLevel: snapshot.runtime?.batteryLevel },
+      capabilities,
+    };
+  }
+
+  private async save() {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.snapshots));
+    } catch (e) {
+      console.warn('Failed to save capability history', e);
+    }
+  }
+
+  /**
+   * Slope per day fitted through daily averages, or 0 until the averages
+   * span at least MIN_TREND_SPAN_DAYS
+   */
+  private dailySlope(points: { timestamp: number; value: number }[]): number {
+    const days = new Map<number, { sum: number; count: number }>();
+    for (const p of points) {
+      const day = Math.floor(p.timestamp / DAY_MS);
+      const bucket = days.get(day) ?? { sum: 0, count: 0 };
+      bucket.sum += p.value;
+      bucket.count++;
+      days.set(day, bucket);
+    }
+
+    const daily: TrendPoint[] = [...days.entries()]
+      .map(([day, { sum, count }]) => ({ x: day, y: sum / count }))
+      .sort((a, b) => a.x - b.x);
+    if (daily.length < 2 || daily[daily.length - 1].x - daily[0].x < this.MIN_TREND_SPAN_DAYS) return 0;
+
+    return linearRegression(daily)?.slope ?? 0;
+  }
+
+  private toDirection(slope: number, threshold: number): TrendDirection {
+    if (slope <= -threshold) return 'declining';
+    if (slope >= threshold) return 'improving';
+    return 'stable';
+  }
+}
+
+export const capabilityHistory = new CapabilityHistory();
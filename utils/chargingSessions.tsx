@@ -0,0 +1,261 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Battery from 'expo-battery';
+import { batterySampler, BatterySample, isChargingState } from './batterySampler';
+
+const STORAGE_KEYS = {
+  sessions: '@phonefit_charging_sessions',
+  active: '@phonefit_charging_active',
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface ChargingSession {
+  start: number;
+  end: number;
+  startLevel: number;            // 0-1
+  endLevel: number;              // 0-1
+  durationMinutes: number;
+  percentPerHour: number;        // Charge speed
+  reachedFull: boolean;
+  overnight: boolean;
+}
+
+type ActiveSession = {
+  start: number;
+  startLevel: number;
+  lastSeen: number;
+  lastLevel: number;
+  reachedFull: boolean;
+};
+
+export interface ChargeInsight {
+  id: string;
+  emoji: string;
+  title: string;
+  description: string;
+  kind: 'habit' | 'warning' | 'tip';
+}
+
+/**
+ * Charging Session Tracker
+ * Turns plug/unplug transitions in battery samples into charging sessions
+ * and derives charge-habit insights from them
+ */
+export class ChargingSessionTracker {
+  private sessions: ChargingSession[] = [];
+  private active: ActiveSession | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private subscription: { remove: () => void } | null = null;
+
+  private readonly MAX_SESSIONS = 200;
+  private readonly MIN_SESSION_MS = 2 * 60 * 1000;
+  // Longer gaps mean we missed the unplug; end the session at the last sighting
+  private readonly MAX_GAP = 6 * HOUR_MS;
+  private readonly MIN_SESSIONS_FOR_INSIGHTS = 3;
+
+  /* =======================
+     TRACKING
+  ======================= */
+
+  start(): void {
+    if (this.subscription) return;
+    this.subscription = batterySampler.addSampleListener(sample => {
+      this.observe(sample);
+    });
+  }
+
+  stop(): void {
+    this.subscription?.remove();
+    this.subscription = null;
+  }
+
+  async observe(sample: BatterySample): Promise<void> {
+    await this.load();
+    const charging = isChargingState(sample.state);
+
+    if (charging) {
+      if (!this.active) {
+        this.active = {
+          start: sample.timestamp,
+          startLevel: sample.level,
+          lastSeen: sample.timestamp,
+          lastLevel: sample.level,
+          reachedFull: false,
+        };
+      } else if (sample.timestamp - this.active.lastSeen > this.MAX_GAP) {
+        // Missed an unplug/replug while the app wasn't running
+        this.finishSession(this.active.lastSeen, this.active.lastLevel);
+        this.active = {
+          start: sample.timestamp,
+          startLevel: sample.level,
+          lastSeen: sample.timestamp,
+          lastLevel: sample.level,
+          reachedFull: false,
+        };
+      }
+
+      this.active.lastSeen = sample.timestamp;
+      this.active.lastLevel = sample.level;
+      if (sample.level >= 0.99 || sample.state === Battery.BatteryState.FULL) {
+        this.active.reachedFull = true;
+      }
+    } else if (this.active) {
+      const missedUnplug = sample.timestamp - this.active.lastSeen > this.MAX_GAP;
+      this.finishSession(
+        missedUnplug ? this.active.lastSeen : sample.timestamp,
+        missedUnplug ? this.active.lastLevel : sample.level
+      );
+    } else {
+      return;
+    }
+
+    await this.save();
+  }
+
+  /* =======================
+     QUERIES
+  ======================= */
+
+  async getSessions(sinceMs?: number): Promise<ChargingSession[]> {
+    await this.load();
+    if (sinceMs === undefined) return [...this.sessions];
+    return this.sessions.filter(s => s.end >= sinceMs);
+  }
+
+  async isCharging(): Promise<boolean> {
+    await this.load();
+    return this.active !== null;
+  }
+
+  async getInsights(days = 30): Promise<ChargeInsight[]> {
+    const sessions = await this.getSessions(Date.now() - days * DAY_MS);
+    if (sessions.length < this.MIN_SESSIONS_FOR_INSIGHTS) return [];
+
+    const insights: ChargeInsight[] = [];
+    const share = (predicate: (s: ChargingSession) => boolean) =>
+      sessions.filter(predicate).length / sessions.length;
+
+    const overnightFullShare = share(s => s.overnight && s.reachedFull);
+    if (overnightFullShare >= 0.5) {
+      insights.push({
+        id: 'overnight-full',
+        emoji: '🌙',
+        title: 'You usually charge to 100% overnight',
+        description: `${Math.round(overnightFullShare * 100)}% of your charges sit at full overnight. Optimized charging reduces long-term wear.`,
+        kind: 'habit',
+      });
+    }
+
+    const deepDischargeShare = share(s => s.startLevel < 0.1);
+    if (deepDischargeShare >= 0.3) {
+      insights.push({
+        id: 'deep-discharge',
+        emoji: '🪫',
+        title: 'Frequent deep discharges below 10%',
+        description: `${Math.round(deepDischargeShare * 100)}% of charges start below 10%. Plugging in around 20% is easier on the battery.`,
+        kind: 'warning',
+      });
+    }
+
+    const averageGain = sessions.reduce((sum, s) => sum + (s.endLevel - s.startLevel), 0) / sessions.length;
+    if (sessions.length >= 5 && averageGain < 0.2) {
+      insights.push({
+        id: 'top-ups',
+        emoji: '🔌',
+        title: 'You top up little and often',
+        description: `Charges add ${Math.round(averageGain * 100)}% on average. Short top-ups are gentle on the battery.`,
+        kind: 'habit',
+      });
+    }
+
+    const speeds = sessions
+      .filter(s => s.durationMinutes >= 15 && !s.reachedFull)
+      .map(s => s.percentPerHour)
+      .sort((a, b) => a - b);
+    if (speeds.length >= this.MIN_SESSIONS_FOR_INSIGHTS) {
+      const median = speeds[Math.floor(speeds.length / 2)];
+      if (median < 20) {
+        insights.push({
+          id: 'slow-charging',
+          emoji: '🐢',
+          title: 'Charging is slow',
+          description: `Typical charge speed is ${Math.round(median)}%/hour. A faster charger or a new cable may help.`,
+          kind: 'tip',
+        });
+      } else if (median >= 60) {
+        insights.push({
+          id: 'fast-charging',
+          emoji: '⚡',
+          title: 'Fast charging detected',
+          description: `Typical charge speed is ${Math.round(median)}%/hour.`,
+          kind: 'habit',
+        });
+      }
+    }
+
+    return insights;
+  }
+
+  /* =======================
+     HELPERS
+  ======================= */
+
+  private finishSession(end: number, endLevel: number) {
+    const active = this.active;
+    this.active = null;
+    if (!active || end - active.start < this.MIN_SESSION_MS) return;
+
+    const hours = (end - active.start) / HOUR_MS;
+    const startHour = new Date(active.start).getHours();
+
+    this.sessions.push({
+      start: active.start,
+      end,
+      startLevel: active.startLevel,
+      endLevel,
+      durationMinutes: Math.round((end - active.start) / 60000),
+      percentPerHour: Math.round(((endLevel - active.startLevel) * 100 / hours) * 10) / 10,
+      reachedFull: active.reachedFull,
+      overnight: (startHour >= 20 || startHour < 4) && hours >= 3,
+    });
+    if (this.sessions.length > this.MAX_SESSIONS) {
+      this.sessions = this.sessions.slice(-this.MAX_SESSIONS);
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) this.loadPromise = this.readFromStorage();
+    return this.loadPromise;
+  }
+
+  private async readFromStorage() {
+    try {
+      const [sessions, active] = await Promise.all([
+        AsyncStorage.getItem(STORAGE_KEYS.sessions),
+        AsyncStorage.getItem(STORAGE_KEYS.active),
+      ]);
+      const parsed = sessions ? JSON.parse(sessions) : [];
+      this.sessions = Array.isArray(parsed) ? parsed : [];
+      this.active = active ? JSON.parse(active) : null;
+    } catch {
+      this.sessions = [];
+      this.active = null;
+    }
+  }
+
+  private async save() {
+    try {
+      await Promise.all([
+        AsyncStorage.setItem(STORAGE_KEYS.sessions, JSON.stringify(this.sessions)),
+        this.active
+          ? AsyncStorage.setItem(STORAGE_KEYS.active, JSON.stringify(this.active))
+          : AsyncStorage.removeItem(STORAGE_KEYS.active),
+      ]);
+    } catch (e) {
+      console.warn('Failed to save charging sessions', e);
+    }
+  }
+}
+
+export const chargingSessionTracker = new ChargingSessionTracker();
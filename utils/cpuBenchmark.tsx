@@ -0,0 +1,188 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { CpuWorkload, MeasuredCpuBenchmark } from '../capabilities/types';
+import {
+  BenchmarkRunOptions,
+  getAppVersion,
+  throwIfCancelled,
+  yieldToEventLoop,
+} from './benchmarkUtils';
+
+const STORAGE_KEY = '@phonefit_cpu_benchmark';
+
+// Time spent on each workload, split into slices so the UI stays responsive
+const WORKLOAD_BUDGET_MS = 400;
+const SLICE_MS = 16;
+
+// Units per second of a mid-range Android phone on Hermes; that phone scores 100
+const REFERENCE_OPS: Record<CpuWorkload, number> = {
+  integer: 500,
+  float: 400,
+  json: 6000,
+  sort: 1200,
+  string: 8000,
+};
+
+const JSON_PAYLOAD = {
+  items: Array.from({ length: 40 }, (_, i) => ({
+    id: i,
+    name: `item-${i}`,
+    tags: ['a', 'b', 'c'],
+    value: i * 1.5,
+    active: i % 2 === 0,
+  })),
+};
+
+const SORT_INPUT = Array.from({ length: 1000 }, (_, i) => ((i * 7919) % 1000) + 0.5);
+
+// One unit of work each; results feed a checksum so nothing gets optimized away
+const WORKLOADS: Record<CpuWorkload, () => number> = {
+  integer: () => {
+    let x = 123456789;
+    for (let i = 0; i < 10000; i++) {
+      x ^= x << 13;
+      x ^= x >>> 17;
+      x ^= x << 5;
+      x = (Math.imul(x, 31) + i) | 0;
+    }
+    return x;
+  },
+  float: () => {
+    let sum = 0;
+    for (let i = 1; i <= 5000; i++) {
+      sum += Math.sqrt(i) * Math.sin(i) / (1 + Math.cos(i) * Math.cos(i));
+    }
+    return sum;
+  },
+  json: () => JSON.parse(JSON.stringify(JSON_PAYLOAD)).items.length,
+  sort: () => {
+    const values = SORT_INPUT.slice();
+    values.sort((a, b) => a - b);
+    return values[500];
+  },
+  string: () => {
+    let text = '';
+    for (let i = 0; i < 200; i++) text += `word${i} `;
+    return text.split(' ').join('-').replace(/word/g, 'w').indexOf('w199');
+  },
+};
+
+const WORKLOAD_ORDER: CpuWorkload[] = ['integer', 'float', 'json', 'sort', 'string'];
+
+/**
+ * CPU Benchmark
+ * Short JS micro-benchmark suite run on demand. Each workload is timed
+ * against a reference phone; the overall score is their geometric mean.
+ * Results are cached per app version since engine changes shift scores.
+ */
+export class CpuBenchmark {
+  private cached: MeasuredCpuBenchmark | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private checksum = 0;
+
+  async run(options: BenchmarkRunOptions = {}): Promise<MeasuredCpuBenchmark> {
+    const started = Date.now();
+    const { score, workloads } = await this.runPass(WORKLOAD_BUDGET_MS, options);
+    options.onProgress?.(1, 'done');
+
+    const result: MeasuredCpuBenchmark = {
+      score,
+      workloads,
+      durationMs: Date.now() - started,
+      timestamp: Date.now(),
+      appVersion: getAppVersion(),
+    };
+
+    await this.load();
+    this.cached = result;
+    await this.save();
+    return result;
+  }
+
+  /**
+   * Last result for this app version, if any
+   */
+  async getCached(): Promise<MeasuredCpuBenchmark | undefined> {
+    await this.load();
+    if (!this.cached || this.cached.appVersion !== getAppVersion()) return undefined;
+    return this.cached;
+  }
+
+  async clear(): Promise<void> {
+    this.cached = null;
+    this.loadPromise = Promise.resolve();
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  }
+
+  /**
+   * One pass over every workload with the given time budget each, not cached.
+   * Shorter budgets are noisier but let the sustained test sample repeatedly.
+   */
+  async runPass(
+    budgetMs: number,
+    options: BenchmarkRunOptions = {}
+  ): Promise<Pick<MeasuredCpuBenchmark, 'score' | 'workloads'>> {
+    const { signal, onProgress } = options;
+    const workloads = {} as Record<CpuWorkload, number>;
+
+    for (let i = 0; i < WORKLOAD_ORDER.length; i++) {
+      const workload = WORKLOAD_ORDER[i];
+      onProgress?.(i / WORKLOAD_ORDER.length, workload);
+
+      const opsPerSecond = await this.measure(WORKLOADS[workload], budgetMs, signal);
+      workloads[workload] = Math.round((opsPerSecond / REFERENCE_OPS[workload]) * 100);
+    }
+
+    const logSum = WORKLOAD_ORDER.reduce((sum, w) => sum + Math.log(Math.max(1, workloads[w])), 0);
+    return { score: Math.round(Math.exp(logSum / WORKLOAD_ORDER.length)), workloads };
+  }
+
+  /* =======================
+     HELPERS
+  ======================= */
+
+  private async measure(unit: () => number, budgetMs: number, signal?: AbortSignal): Promise<number> {
+    let units = 0;
+    let busyMs = 0;
+
+    while (busyMs < budgetMs) {
+      throwIfCancelled(signal);
+
+      const sliceStart = Date.now();
+      let elapsed = 0;
+      do {
+        this.checksum ^= unit() | 0;
+        units++;
+        elapsed = Date.now() - sliceStart;
+      } while (elapsed < SLICE_MS);
+      busyMs += elapsed;
+
+      await yieldToEventLoop();
+    }
+
+    return units / (busyMs / 1000);
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) this.loadPromise = this.readFromStorage();
+    return this.loadPromise;
+  }
+
+  private async readFromStorage() {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      this.cached = stored ? JSON.parse(stored) : null;
+    } catch {
+      this.cached = null;
+    }
+  }
+
+  private async save() {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.cached));
+    } catch (e) {
+      console.warn('Failed to save CPU benchmark', e);
+    }
+  }
+}
+
+export const cpuBenchmark = new CpuBenchmark();
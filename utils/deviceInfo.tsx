@@ -6,9 +6,26 @@ import * as Battery from 'expo-battery';
 import * as Sensors from 'expo-sensors';
 import { ScoringEngine } from './scoringEngine';
 import { SensorMapper } from './sensorMapper';
-import { buildCapabilities } from '../capabilities/capabilityEngine';
+import { resolveDeviceCapabilities, toDeviceCapabilities } from '../capabilities/capabilityAdapters';
 import { getStorageInfo } from './storageutils';
-import type { DeviceInfo, DeviceCapabilities, RuntimeSignals } from '../types';
+import { storageSampler } from './storageSampler';
+import { capabilityHistory } from './capabilityHistory';
+import { batterySampler } from './batterySampler';
+import { chargingSessionTracker } from './chargingSessions';
+import { getBatteryHealthEstimate } from './batteryHealth';
+import { getBatteryCapacityProvenance, resolveBatteryCapacity } from './batteryCapacity';
+import { userSettings } from './userSettings';
+import { cpuBenchmark } from './cpuBenchmark';
+import { applyMeasuredRefreshRate, refreshRateProbe } from './refreshRateProbe';
+import { memoryProbe } from './memoryProbe';
+import { storageBenchmark } from './storageBenchmark';
+import { sustainedBenchmark } from './sustainedBenchmark';
+import { renderBenchmark } from './renderBenchmark';
+import { lookupDeviceSpec, specHasSensor, specMatchProvenance, toSpecMatchInfo } from './deviceSpecs';
+import { getAndroidBuildInfo } from './buildInfo';
+import { resolveSocIdentity } from './socClasses';
+import type { DeviceInfo, DeviceCapabilities, RuntimeSignals, SensorEntry } from '../types';
+import type { FieldProvenance, Provenance } from '../capabilities/types';
 
 interface DeviceContextType {
   deviceInfo: DeviceInfo | null;
@@ -28,44 +45,89 @@ const DeviceContext = createContext<DeviceContextType>({
 
 export const useDevice = () => useContext(DeviceContext);
 
+// Quiet time after the initial load before probing, so the first screen's
+// render doesn't show up as dropped frames
+const PROBE_SETTLE_MS = 3000;
+
+// On-device measurements that are present count as measured
+const measuredProvenance = (signals: Partial<RuntimeSignals>): FieldProvenance<RuntimeSignals> =>
+  Object.fromEntries(
+    Object.entries(signals)
+      .filter(([, value]) => value !== undefined)
+      .map(([field]) => [field, 'measured' as const])
+  );
+
+// Every field of a hardcoded fallback is a default
+const defaultProvenance = <T extends object>(fields: T): FieldProvenance<T> =>
+  Object.fromEntries(Object.keys(fields).map(field => [field, 'default' as const])) as FieldProvenance<T>;
+
 export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [deviceInfo, setDeviceInfo] = useState<DeviceInfo | null>(null);
   const [runtimeSignals, setRuntimeSignals] = useState<RuntimeSignals | null>(null);
   const [capabilities, setCapabilities] = useState<DeviceCapabilities | null>(null);
   const [loading, setLoading] = useState(true);
+  const [initialLoadDone, setInitialLoadDone] = useState(false);
 
-  const getDeviceInfo = useCallback(() => {
+  const getDeviceInfo = useCallback((): DeviceInfo => {
     const { width, height } = Dimensions.get('screen');
     const pixelDensity = Dimensions.get('screen').scale;
-    
+
+    // Spec database sits between platform values and model-name guesses
+    const specMatch = lookupDeviceSpec(Device.brand ?? '', Device.modelName ?? '');
+    const spec = specMatch?.spec;
+    const specProvenance = specMatch ? specMatchProvenance(specMatch) : 'default';
+
     let cpuCount: number | undefined;
-    try {
-      if (Device.supportedCpuArchitectures?.length) {
-        cpuCount = Device.supportedCpuArchitectures.length * 2;
-      } else {
-        cpuCount = Device.osName === 'Android' ? 
-          (Device.brand?.toLowerCase().includes('samsung') ? 8 : 4) : 
-          (Device.modelName?.includes('Pro') ? 6 : 4);
+    let cpuCountProvenance: Provenance = 'heuristic';
+    if (spec) {
+      cpuCount = spec.cpuCores;
+      cpuCountProvenance = specProvenance;
+    } else {
+      try {
+        if (Device.supportedCpuArchitectures?.length) {
+          cpuCount = Device.supportedCpuArchitectures.length * 2;
+        } else {
+          cpuCount = Device.osName === 'Android' ? 
+            (Device.brand?.toLowerCase().includes('samsung') ? 8 : 4) : 
+            (Device.modelName?.includes('Pro') ? 6 : 4);
+        }
+      } catch (error) {
+        console.warn('Could not get CPU count:', error);
+        cpuCount = 4;
+        cpuCountProvenance = 'default';
       }
-    } catch (error) {
-      console.warn('Could not get CPU count:', error);
-      cpuCount = 4;
     }
 
+    // Rated rate from the spec database, else a model-name guess;
+    // replaced by the frame-timing probe once it has run
     let refreshRate: number | undefined;
-    try {
-      if (Device.modelName?.match(/Pro|Ultra|Plus/i)) {
-        refreshRate = 120;
-      } else if (Device.brand?.toLowerCase().includes('samsung')) {
-        refreshRate = Device.modelName?.match(/S2[1-9]|Note|Fold/i) ? 120 : 60;
-      } else {
+    let refreshRateProvenance: Provenance = 'heuristic';
+    if (spec) {
+      refreshRate = spec.refreshRate;
+      refreshRateProvenance = specProvenance;
+    } else {
+      try {
+        if (Device.modelName?.match(/Pro|Ultra|Plus/i)) {
+          refreshRate = 120;
+        } else if (Device.brand?.toLowerCase().includes('samsung')) {
+          refreshRate = Device.modelName?.match(/S2[1-9]|Note|Fold/i) ? 120 : 60;
+        } else {
+          refreshRate = 60;
+        }
+      } catch (error) {
+        console.warn('Could not get refresh rate:', error);
         refreshRate = 60;
+        refreshRateProvenance = 'default';
       }
-    } catch (error) {
-      console.warn('Could not get refresh rate:', error);
-      refreshRate = 60;
     }
 
+    // Platform RAM when reported, else the smallest variant sold
+    const totalMemory = Device.totalMemory ?? (spec ? spec.ramGB[0] * 1024 * 1024 * 1024 : undefined);
+
+    const soc = resolveSocIdentity(spec, getAndroidBuildInfo(), specProvenance);
+
+    const fromPlatform = (value: unknown): Provenance => (value == null ? 'default' : 'platform');
+
     return {
       deviceName: Device.deviceName ?? 'Unknown Device',
       brand: Device.brand ?? 'Unknown',
@@ -74,7 +136,7 @@ export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       osVersion: Device.osVersion ?? '',
       platformApiLevel: Device.platformApiLevel ?? undefined,
       deviceType: Device.deviceType != null ? Device.DeviceType[Device.deviceType] : 'PHONE',
-      totalMemory: Device.totalMemory ?? undefined,
+      totalMemory,
       supportedCpuArchitectures: Device.supportedCpuArchitectures ?? undefined,
       cpuCount,
       screenSize: Math.sqrt(
@@ -83,12 +145,33 @@ export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       ) / 160,
       screenScale: pixelDensity,
       refreshRate,
+      soc: soc?.name,
+      socClass: soc?.socClass,
+      specMatch: specMatch ? toSpecMatchInfo(specMatch) : undefined,
+      provenance: {
+        deviceName: fromPlatform(Device.deviceName),
+        brand: fromPlatform(Device.brand),
+        model: fromPlatform(Device.modelName),
+        osName: fromPlatform(Device.osName),
+        osVersion: fromPlatform(Device.osVersion),
+        platformApiLevel: fromPlatform(Device.platformApiLevel),
+        deviceType: fromPlatform(Device.deviceType),
+        totalMemory: Device.totalMemory != null ? 'platform' : specProvenance,
+        supportedCpuArchitectures: fromPlatform(Device.supportedCpuArchitectures),
+        cpuCount: cpuCountProvenance,
+        screenSize: 'platform',
+        screenScale: 'platform',
+        refreshRate: refreshRateProvenance,
+        ...(soc && { soc: soc.provenance }),
+        ...(soc?.socClass && { socClass: soc.provenance }),
+      },
     };
   }, []);
 
   const getBatteryInfo = useCallback(async () => {
     let batteryLevel = 1;
     let batteryState = null;
+    let batteryProvenance: Provenance = 'platform';
     
     try {
       batteryLevel = await Battery.getBatteryLevelAsync();
@@ -99,13 +182,17 @@ export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       const model = Device.modelName || '';
       const isNewDevice = !model.match(/X|8|9|10/i);
       batteryLevel = isNewDevice ? 0.85 : 0.65;
+      batteryProvenance = 'heuristic';
     }
     
-    return { batteryLevel, batteryState };
+    return { batteryLevel, batteryState, batteryProvenance };
   }, []);
 
   // Helper function to check pedometer availability
-  const checkPedometerAvailability = useCallback(async (): Promise<boolean> => {
+  const checkPedometerAvailability = useCallback(async (): Promise<{
+    available: boolean;
+    provenance: Provenance;
+  }> => {
     try {
       // First try to use expo-sensors Pedometer if available
       const { Pedometer } = require('expo-sensors');
@@ -116,7 +203,7 @@ export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         try {
           const isAvailable = await Pedometer.isAvailableAsync();
           console.log('✅ Pedometer availability (expo-sensors):', isAvailable);
-          return isAvailable;
+          return { available: isAvailable, provenance: 'platform' };
         } catch (pedometerError) {
           console.log('⚠️ Pedometer.isAvailableAsync failed:', pedometerError);
         }
@@ -125,6 +212,13 @@ export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       console.log('ℹ️ Expo Pedometer module not available:', error);
     }
     
+    // Spec database knows which models ship a step counter
+    const specMatch = lookupDeviceSpec(Device.brand ?? '', Device.modelName ?? '');
+    const specPedometer = specHasSensor(specMatch, 'pedometer');
+    if (specMatch && specPedometer !== undefined) {
+      return { available: specPedometer, provenance: specMatchProvenance(specMatch) };
+    }
+
     // Fallback to device heuristics
     const model = Device.modelName || '';
     const brand = Device.brand || '';
@@ -153,13 +247,15 @@ export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       finalResult: result
     });
     
-    return result;
+    return { available: result, provenance: 'heuristic' };
   }, []);
 
   const getSensorInfo = useCallback(async (deviceModel: string) => {
     let hasGyroscope = false;
     let hasAccelerometer = false;
     let hasPedometer = false;
+    let gyroscopeProvenance: Provenance = 'platform';
+    let pedometerProvenance: Provenance = 'platform';
     
     try {
       // Check standard sensors
@@ -167,7 +263,9 @@ export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       hasAccelerometer = await Sensors.Accelerometer.isAvailableAsync();
       
       // Check for pedometer availability
-      hasPedometer = await checkPedometerAvailability();
+      const pedometer = await checkPedometerAvailability();
+      hasPedometer = pedometer.available;
+      pedometerProvenance = pedometer.provenance;
       
       console.log('📡 Sensor availability:', {
         gyroscope: hasGyroscope,
@@ -177,13 +275,16 @@ export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       
     } catch (sensorError) {
       console.warn('Sensor detection failed:', sensorError);
-      hasGyroscope = !deviceModel?.match(/lite|a[0-9]|e[0-9]/i);
-      hasAccelerometer = true;
+      const specMatch = lookupDeviceSpec(Device.brand ?? '', deviceModel);
+      hasGyroscope = specHasSensor(specMatch, 'gyroscope') ?? !deviceModel?.match(/lite|a[0-9]|e[0-9]/i);
+      hasAccelerometer = specHasSensor(specMatch, 'accelerometer') ?? true;
       // Most modern smartphones have step counting capability
-      hasPedometer = !deviceModel?.match(/lite|a[0-9]|e[0-9]|basic/i);
+      hasPedometer = specHasSensor(specMatch, 'pedometer') ?? !deviceModel?.match(/lite|a[0-9]|e[0-9]|basic/i);
+      gyroscopeProvenance = specMatch ? specMatchProvenance(specMatch) : 'heuristic';
+      pedometerProvenance = specMatch ? specMatchProvenance(specMatch) : 'heuristic';
     }
 
-    let sensors: { name: string; available: boolean; benefit: string; icon: string; }[] = [];
+    let sensors: SensorEntry[] = [];
     try {
       const rawSensors = await SensorMapper.detectAvailableSensors();
       sensors = await Promise.all(rawSensors.map(async (sensor) => {
@@ -240,129 +341,44 @@ export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       ];
     }
 
-    return { hasGyroscope, sensors, hasPedometer };
+    return { hasGyroscope, sensors, hasPedometer, gyroscopeProvenance, pedometerProvenance };
   }, [checkPedometerAvailability]);
 
   const getCapabilities = useCallback((
     info: DeviceInfo, 
     runtime: RuntimeSignals, 
-    sensors: { name: string; available: boolean; benefit: string; icon: string; }[]
-  ): DeviceCapabilities => {
-    try {
-      const newCapabilities = buildCapabilities(info, runtime);
-      
-      const patternMap: { [key: string]: 'Light' | 'Moderate' | 'Heavy' | 'Power User' } = {
-        'Light': 'Light',
-        'Moderate': 'Moderate',
-        'Power': 'Power User',
-        'Extreme': 'Power User',
-      };
-      
-      // Calculate human readable storage info
-      const humanReadable = ScoringEngine.calculateStorageHumanReadable(runtime.freeStorage);
-      
-      return {
-        performance: {
-          tier: newCapabilities.performance.tier,
-          score: newCapabilities.performance.score,
-          description: newCapabilities.performance.why || `Your phone is ${newCapabilities.performance.tier >= 4 ? 'quite' : ''} capable`,
-          confidence: newCapabilities.performance.confidence,
-        },
-        gaming: {
-          tier: newCapabilities.gaming.tier,
-          description: newCapabilities.gaming.description,
-          confidence: newCapabilities.gaming.confidence,
-          canRunAAA: newCapabilities.gaming.canRunAAA,
-          canRunPopular: newCapabilities.gaming.canRunPopular,
-        },
-        battery: {
-          estimatedUsage: ScoringEngine.estimateBatteryUsage(4000),
-          health: runtime.batteryLevel > 0.8 ? 'Excellent' : 
-                 runtime.batteryLevel > 0.6 ? 'Good' : 
-                 runtime.batteryLevel > 0.4 ? 'Fair' : 'Poor',
-          capacity: 4000,
-          level: runtime.batteryLevel,
-          batteryState: runtime.batteryState
-        },
-        storage: {
-          total: runtime.totalStorage,
-          free: runtime.freeStorage,
-          used: runtime.usedStorage,
-          humanReadable: humanReadable,
-          percentageFree: (runtime.freeStorage / runtime.totalStorage) * 100
-        },
-        sensors,
-        dailyUsage: {
-          pattern: patternMap[newCapabilities.dailyUsage.pattern] || 'Moderate',
-          description: newCapabilities.dailyUsage.why || 'Daily usage pattern',
-          screenTime: newCapabilities.dailyUsage.screenTime,
-        },
-      };
-    } catch (error) {
-      console.warn('New capability engine failed, using fallback:', error);
-      
-      // Fallback to old scoring engine
-      const perfTier = ScoringEngine.calculatePerformanceTier(info);
-      const gamingTier = ScoringEngine.calculateGamingTier(info);
-      const gamingInfo = ScoringEngine.getGamingDescription(gamingTier);
-      const confidence = ScoringEngine.getConfidenceScore(info);
-      const dailyUsage = ScoringEngine.calculateDailyUsagePattern(info);
-      
-      // Calculate human readable storage info for fallback
-      const humanReadable = ScoringEngine.calculateStorageHumanReadable(runtime.freeStorage);
-
-      return {
-        performance: {
-          tier: perfTier,
-          score: confidence,
-          description: `Your phone is ${perfTier >= 4 ? 'quite' : ''} capable`,
-          confidence,
-        },
-        gaming: {
-          tier: gamingTier,
-          description: gamingInfo.description,
-          confidence: Math.max(confidence - 10, 60),
-          canRunAAA: gamingInfo.canRunAAA,
-          canRunPopular: gamingInfo.canRunPopular,
-        },
-        battery: {
-          estimatedUsage: ScoringEngine.estimateBatteryUsage(4000),
-          health: runtime.batteryLevel > 0.8 ? 'Excellent' : 
-                 runtime.batteryLevel > 0.6 ? 'Good' : 
-                 runtime.batteryLevel > 0.4 ? 'Fair' : 'Poor',
-          capacity: 4000,
-          level: runtime.batteryLevel,
-          batteryState: runtime.batteryState
-        },
-        storage: {
-          total: runtime.totalStorage,
-          free: runtime.freeStorage,
-          used: runtime.usedStorage,
-          humanReadable: humanReadable,
-          percentageFree: (runtime.freeStorage / runtime.totalStorage) * 100
-        },
-        sensors,
-        dailyUsage,
-      };
-    }
-  }, []);
+    sensors: SensorEntry[]
+  ): DeviceCapabilities => resolveDeviceCapabilities(info, runtime, sensors), []);
 
   const loadDeviceInfo = useCallback(async () => {
     try {
       setLoading(true);
       
-      // 1. Get device hardware info
-      const info = getDeviceInfo();
+      // 1. Get device hardware info, with the measured refresh rate if probed
+      const info = applyMeasuredRefreshRate(getDeviceInfo(), await refreshRateProbe.getCached());
       setDeviceInfo(info);
 
-      // 2. Get battery info
-      const { batteryLevel, batteryState } = await getBatteryInfo();
+      // 2. Get battery info and record it as a drain sample
+      const { batteryLevel, batteryState, batteryProvenance } = await getBatteryInfo();
+      await batterySampler.recordSample(batteryLevel, batteryState ?? undefined);
+      const measuredDrain = await batterySampler.getMeasuredDrain();
+      const batteryHealth = await getBatteryHealthEstimate();
+      const { batteryCapacityMah } = await userSettings.get();
+      const batteryCapacity = resolveBatteryCapacity(info, batteryCapacityMah, measuredDrain);
+      const cpuBenchmarkResult = await cpuBenchmark.getCached();
+      const effectiveMemory = await memoryProbe.getEffectiveMemory();
+      const storageThroughput = await storageBenchmark.getCached();
+      const sustainedPerformance = await sustainedBenchmark.getCached();
+      const renderPerformance = await renderBenchmark.getCached();
       
-      // 3. Get storage info (using the separate utility)
-      const { freeStorage, totalStorage, usedStorage } = await getStorageInfo();
+      // 3. Get storage info (using the separate utility) and record it for the forecast
+      const storageInfo = await getStorageInfo();
+      await storageSampler.recordSample(storageInfo);
+      const { freeStorage, totalStorage, usedStorage, provenance: storageProvenance } = storageInfo;
       
       // 4. Get sensor info
-      const { hasGyroscope, sensors, hasPedometer } = await getSensorInfo(info.model);
+      const { hasGyroscope, sensors, hasPedometer, gyroscopeProvenance, pedometerProvenance } =
+        await getSensorInfo(info.model);
       
       // 5. Create runtime signals
       const runtime: RuntimeSignals = {
@@ -372,13 +388,47 @@ export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         usedStorage,
         hasGyroscope,
         hasPedometer, // Add pedometer availability
-        batteryState: batteryState || 'unknown'
+        batteryState: batteryState ?? Battery.BatteryState.UNKNOWN,
+        measuredDrain,
+        batteryHealth,
+        batteryCapacity,
+        cpuBenchmark: cpuBenchmarkResult,
+        effectiveMemory,
+        storageThroughput,
+        storageCapacity: storageInfo.capacity,
+        sustainedPerformance,
+        renderPerformance,
+        provenance: {
+          batteryLevel: batteryProvenance,
+          batteryState: batteryState != null ? 'platform' : 'default',
+          ...storageProvenance,
+          storageCapacity: storageInfo.capacity.source === 'estimate' ? storageProvenance.totalStorage : 'platform',
+          hasGyroscope: gyroscopeProvenance,
+          hasPedometer: pedometerProvenance,
+          batteryCapacity: getBatteryCapacityProvenance(batteryCapacity),
+          ...measuredProvenance({
+            measuredDrain,
+            batteryHealth,
+            cpuBenchmark: cpuBenchmarkResult,
+            effectiveMemory,
+            storageThroughput,
+            sustainedPerformance,
+            renderPerformance,
+          }),
+          // Unsynced storage rates are page-cache upper bounds, not flash speed
+          ...(storageThroughput && !storageThroughput.synced && { storageThroughput: 'heuristic' as const }),
+        },
       };
       setRuntimeSignals(runtime);
 
       // 6. Calculate capabilities
       const caps = getCapabilities(info, runtime, sensors);
       setCapabilities(caps);
+
+      // 7. Keep a snapshot for trend analysis
+      capabilityHistory.record(caps, runtime).catch(error => {
+        console.warn('Failed to record capability snapshot:', error);
+      });
       
       // Log final storage values for debugging
       console.log('📱 Device info loaded successfully');
@@ -404,10 +454,8 @@ export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       // Provide minimal fallback data
       const total = 64 * 1024 * 1024 * 1024;
       const free = 32 * 1024 * 1024 * 1024;
-      const used = 32 * 1024 * 1024 * 1024;
-      const humanReadable = ScoringEngine.calculateStorageHumanReadable(free);
       
-      const minimalInfo: DeviceInfo = {
+      const minimalFields = {
         deviceName: 'Unknown Device',
         brand: 'Unknown',
         model: 'Unknown',
@@ -419,50 +467,28 @@ export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         screenScale: 2,
         refreshRate: 60,
       };
+      const minimalInfo: DeviceInfo = { ...minimalFields, provenance: defaultProvenance(minimalFields) };
+
+      const minimalSignals = {
+        batteryLevel: 0.75,
+        freeStorage: free,
+        totalStorage: total,
+        usedStorage: total - free,
+        hasGyroscope: true,
+        hasPedometer: true,
+        batteryState: Battery.BatteryState.UNPLUGGED,
+      };
+      const minimalRuntime: RuntimeSignals = { ...minimalSignals, provenance: defaultProvenance(minimalSignals) };
       
-      const minimalCaps: DeviceCapabilities = {
-        performance: {
-          tier: 3,
-          score: 70,
-          description: 'Standard smartphone capabilities',
-          confidence: 70,
-        },
-        gaming: {
-          tier: 3,
-          description: 'Can run most mobile games',
-          confidence: 65,
-          canRunAAA: false,
-          canRunPopular: true,
-        },
-        battery: {
-          estimatedUsage: {
-            light: '10 hrs',
-            normal: '7 hrs',
-            heavy: '4 hrs',
-          },
-          health: 'Good',
-          capacity: 4000,
-          level: 0.75,
-          batteryState: Battery.BatteryState.UNPLUGGED
-        },
-        storage: {
-          total,
-          free,
-          used,
-          humanReadable,
-          percentageFree: 50
-        },
-        sensors: [
+      const minimalCaps = toDeviceCapabilities(
+        ScoringEngine.buildFallbackCapabilities(minimalInfo, minimalRuntime),
+        minimalRuntime,
+        [
           { name: 'Accelerometer', available: true, benefit: 'Motion detection', icon: 'move' },
           { name: 'Pedometer', available: true, benefit: 'Step counting', icon: 'footsteps' },
           { name: 'Step Counter', available: true, benefit: 'Daily activity monitoring', icon: 'walk' },
-        ],
-        dailyUsage: {
-          pattern: 'Moderate',
-          description: 'Average smartphone usage',
-          screenTime: 4,
-        },
-      };
+        ]
+      );
       
       setDeviceInfo(minimalInfo);
       setCapabilities(minimalCaps);
@@ -471,6 +497,19 @@ export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     }
   }, [getDeviceInfo, getBatteryInfo, getSensorInfo, getCapabilities]);
 
+  // Sample battery level/state changes for drain measurement and charging sessions,
+  // and free storage for the days-until-full forecast
+  useEffect(() => {
+    chargingSessionTracker.start();
+    batterySampler.start();
+    storageSampler.start();
+    return () => {
+      storageSampler.stop();
+      batterySampler.stop();
+      chargingSessionTracker.stop();
+    };
+  }, []);
+
   // Refresh when app comes to foreground
   useEffect(() => {
     const subscription = AppState.addEventListener('change', (nextAppState) => {
@@ -484,9 +523,41 @@ export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ childr
 
   // Initial load
   useEffect(() => {
-    loadDeviceInfo();
+    loadDeviceInfo().then(() => setInitialLoadDone(true));
   }, [loadDeviceInfo]);
 
+  // Background probe: display refresh rate when there's no recent measurement.
+  // Waits for the initial load to finish and settle; a busy JS thread drops
+  // frames that would read as a lower or variable rate.
+  // The memory probe only runs from the Benchmarks screen; allocating hundreds
+  // of MB unprompted would push other apps out of memory.
+  useEffect(() => {
+    if (!initialLoadDone) return;
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    const probe = async () => {
+      let measured = false;
+
+      try {
+        if (await refreshRateProbe.needsMeasurement() && !signal.aborted) {
+          await refreshRateProbe.measure({ signal });
+          measured = true;
+        }
+      } catch (error) {
+        if (!signal.aborted) console.warn('Refresh rate probe failed:', error);
+      }
+
+      if (measured && !signal.aborted) await loadDeviceInfo();
+    };
+
+    const timer = setTimeout(probe, PROBE_SETTLE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [initialLoadDone, loadDeviceInfo]);
+
   return (
     <DeviceContext.Provider value={{ 
       deviceInfo, 
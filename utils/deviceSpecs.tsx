@@ -0,0 +1,132 @@
+import type { Provenance, SpecMatchInfo, SpecMatchKind } from '../capabilities/types';
+import { BRAND_ALIASES, DEVICE_SPEC_DB, DeviceSpec, SpecSensor } from '../constants/deviceSpecs';
+
+export interface DeviceSpecMatch {
+  spec: DeviceSpec;
+  brand: string;                 // Database brand key the spec came from
+  matchedBy: SpecMatchKind;
+  score: number;                 // 0-1, 1 for exact and alias matches
+  version: number;               // DEVICE_SPEC_DB version
+}
+
+// Below this token similarity a fuzzy match is more likely wrong than right
+const MIN_FUZZY_SCORE = 0.6;
+
+// Words naming a different model of the same number ("Note 12" vs "Note 12 Pro")
+const VARIANT_TOKENS = new Set(['pro', 'plus', 'ultra', 'max', 'mini', 'lite', 'fe']);
+
+// Words that don't tell models apart within a brand
+const NOISE_TOKENS = new Set(['apple', 'google', 'samsung', 'galaxy', 'oneplus', 'xiaomi']);
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9+]/g, '');
+
+const tokenize = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/\+/g, ' plus ')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token && !NOISE_TOKENS.has(token));
+
+// Tokens carrying the model number ("13", "s23", "a54"); network tags like "5g" don't count
+const modelNumbers = (tokens: string[]) =>
+  tokens.filter(token => /\d/.test(token) && !/^\dg$/.test(token)).sort().join(' ');
+
+const variants = (tokens: string[]) =>
+  tokens.filter(token => VARIANT_TOKENS.has(token)).sort().join(' ');
+
+const cache = new Map<string, DeviceSpecMatch | null>();
+
+/**
+ * Find the bundled spec for a brand/model as reported by expo-device.
+ * Exact model or alias first, then the longest alias prefix (model codes
+ * carry region suffixes like SM-S911B), then token similarity with the
+ * model number and variant words (Pro, FE, Plus...) required to agree.
+ * Fuzzy hits are guesses and report 'heuristic' provenance; see
+ * specMatchProvenance. Unknown brands search every brand by
+ * exact model or alias only: with the brand words stripped, a Tecno
+ * "Spark 10 Pro" would otherwise fuzzy-match a OnePlus "10 Pro".
+ */
+export function lookupDeviceSpec(brand: string, model: string): DeviceSpecMatch | null {
+  const key = `${brand}|${model}`;
+  if (cache.has(key)) return cache.get(key) ?? null;
+
+  const match = findSpec(brand, model);
+  cache.set(key, match);
+  return match;
+}
+
+export function toSpecMatchInfo(match: DeviceSpecMatch): SpecMatchInfo {
+  return {
+    model: match.spec.model,
+    matchedBy: match.matchedBy,
+    score: match.score,
+    version: match.version,
+  };
+}
+
+/**
+ * Provenance of values read from a match: 'spec' for exact and alias
+ * matches, 'heuristic' for fuzzy ones, which may be a sibling model
+ */
+export function specMatchProvenance(match: DeviceSpecMatch): Provenance {
+  return match.matchedBy === 'fuzzy' ? 'heuristic' : 'spec';
+}
+
+export function specHasSensor(match: DeviceSpecMatch | null, sensor: SpecSensor): boolean | undefined {
+  return match ? match.spec.sensors.includes(sensor) : undefined;
+}
+
+/* =======================
+   MATCHING
+======================= */
+
+function findSpec(brand: string, model: string): DeviceSpecMatch | null {
+  const target = normalize(model);
+  if (!target) return null;
+
+  const brandKey = BRAND_ALIASES[brand.toLowerCase()] ?? brand.toLowerCase();
+  const knownBrand = !!DEVICE_SPEC_DB.brands[brandKey];
+  const brands = knownBrand ? [brandKey] : Object.keys(DEVICE_SPEC_DB.brands);
+  const candidates = brands.flatMap(key => DEVICE_SPEC_DB.brands[key].map(spec => ({ brand: key, spec })));
+
+  const toMatch = (candidate: { brand: string; spec: DeviceSpec }, matchedBy: SpecMatchKind, score = 1) => ({
+    ...candidate,
+    matchedBy,
+    score,
+    version: DEVICE_SPEC_DB.version,
+  });
+
+  const exact = candidates.find(({ spec }) => normalize(spec.model) === target);
+  if (exact) return toMatch(exact, 'exact');
+
+  let bestAlias: { candidate: (typeof candidates)[number]; length: number } | null = null;
+  for (const candidate of candidates) {
+    for (const alias of candidate.spec.aliases ?? []) {
+      const aliasKey = normalize(alias);
+      if (target.startsWith(aliasKey) && (!bestAlias || aliasKey.length > bestAlias.length)) {
+        bestAlias = { candidate, length: aliasKey.length };
+      }
+    }
+  }
+  if (bestAlias) return toMatch(bestAlias.candidate, 'alias');
+  if (!knownBrand) return null;
+
+  const targetTokens = tokenize(model);
+  const targetNumbers = modelNumbers(targetTokens);
+  const targetVariants = variants(targetTokens);
+  if (!targetNumbers) return null;
+
+  let bestFuzzy: { candidate: (typeof candidates)[number]; score: number } | null = null;
+  for (const candidate of candidates) {
+    const tokens = tokenize(candidate.spec.model);
+    if (modelNumbers(tokens) !== targetNumbers || variants(tokens) !== targetVariants) continue;
+
+    const shared = tokens.filter(token => targetTokens.includes(token)).length;
+    const score = (2 * shared) / (tokens.length + targetTokens.length);
+    if (score >= MIN_FUZZY_SCORE && (!bestFuzzy || score > bestFuzzy.score)) {
+      bestFuzzy = { candidate, score };
+    }
+  }
+
+  return bestFuzzy ? toMatch(bestFuzzy.candidate, 'fuzzy', Math.round(bestFuzzy.score * 100) / 100) : null;
+}
@@ -0,0 +1,162 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { EffectiveMemory } from '../capabilities/types';
+import {
+  BenchmarkCancelledError,
+  BenchmarkRunOptions,
+  throwIfCancelled,
+  yieldToEventLoop,
+} from './benchmarkUtils';
+
+const STORAGE_KEY = '@phonefit_memory_samples';
+
+const MB = 1024 * 1024;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CHUNK_BYTES = 16 * MB;
+// Stay well clear of the point where the OS kills Phonefit itself
+const MAX_PROBE_BYTES = 768 * MB;
+const MAX_PROBE_SHARE_OF_TOTAL = 0.3;
+// A chunk this many times slower than the first ones means the OS is reclaiming memory
+const SLOWDOWN_FACTOR = 4;
+const MIN_SLOW_CHUNK_MS = 20;
+const PAGE_BYTES = 4096;
+
+export type MemoryProbeStop = 'cap' | 'slowdown' | 'allocation-failed';
+
+export interface MemorySample {
+  timestamp: number;
+  bytes: number;                 // Allocated before stopping
+  stoppedBy: MemoryProbeStop;
+}
+
+/**
+ * Memory Probe
+ * Allocates and touches typed arrays in chunks until allocation slows down,
+ * fails, or hits a safety cap, then frees everything. Samples from several
+ * sessions give an "effective available memory" that reflects what other
+ * apps leave free, unlike Device.totalMemory.
+ *
+ * Only run on request from the benchmark suite: the allocation itself
+ * pushes other apps out of memory.
+ */
+export class MemoryProbe {
+  private samples: MemorySample[] = [];
+  private loadPromise: Promise<void> | null = null;
+
+  private readonly MAX_SAMPLES = 30;
+
+  async measure(
+    options: BenchmarkRunOptions & { totalMemory?: number } = {}
+  ): Promise<MemorySample> {
+    const { signal, onProgress, totalMemory } = options;
+    const cap = totalMemory
+      ? Math.min(MAX_PROBE_BYTES, totalMemory * MAX_PROBE_SHARE_OF_TOTAL)
+      : MAX_PROBE_BYTES;
+
+    let chunks: Uint8Array[] = [];
+    const chunkTimes: number[] = [];
+    let allocated = 0;
+    let stoppedBy: MemoryProbeStop = 'cap';
+
+    try {
+      while (allocated + CHUNK_BYTES <= cap) {
+        throwIfCancelled(signal);
+
+        const started = Date.now();
+        const chunk = new Uint8Array(CHUNK_BYTES);
+        // Touch every page so the memory is actually committed
+        for (let i = 0; i < CHUNK_BYTES; i += PAGE_BYTES) chunk[i] = 1;
+        const elapsed = Date.now() - started;
+
+        chunks.push(chunk);
+        chunkTimes.push(elapsed);
+        allocated += CHUNK_BYTES;
+        onProgress?.(allocated / cap, 'allocating');
+
+        const baseline = this.baselineMs(chunkTimes);
+        if (baseline !== null && elapsed >= MIN_SLOW_CHUNK_MS && elapsed > baseline * SLOWDOWN_FACTOR) {
+          stoppedBy = 'slowdown';
+          break;
+        }
+
+        await yieldToEventLoop();
+      }
+    } catch (error) {
+      if (error instanceof BenchmarkCancelledError) throw error;
+      stoppedBy = 'allocation-failed';
+    } finally {
+      // Drop every reference so the allocations can be collected
+      chunks = [];
+    }
+
+    const sample: MemorySample = { timestamp: Date.now(), bytes: allocated, stoppedBy };
+    await this.load();
+    this.samples.push(sample);
+    if (this.samples.length > this.MAX_SAMPLES) {
+      this.samples = this.samples.slice(-this.MAX_SAMPLES);
+    }
+    await this.save();
+
+    onProgress?.(1, 'done');
+    return sample;
+  }
+
+  async getSamples(sinceMs?: number): Promise<MemorySample[]> {
+    await this.load();
+    if (sinceMs === undefined) return [...this.samples];
+    return this.samples.filter(s => s.timestamp >= sinceMs);
+  }
+
+  /**
+   * Memory signal for the capability engine, or undefined until probed
+   */
+  async getEffectiveMemory(days = 30): Promise<EffectiveMemory | undefined> {
+    const samples = await this.getSamples(Date.now() - days * DAY_MS);
+    if (samples.length === 0) return undefined;
+
+    const sorted = samples.map(s => s.bytes).sort((a, b) => a - b);
+    return {
+      availableBytes: sorted[Math.floor(sorted.length / 2)],
+      minBytes: sorted[0],
+      atLeast: samples.every(s => s.stoppedBy === 'cap'),
+      samples: samples.length,
+      confidence: Math.min(90, 30 + samples.length * 12),
+    };
+  }
+
+  /* =======================
+     HELPERS
+  ======================= */
+
+  // Median of the first few chunks, before any pressure builds
+  private baselineMs(chunkTimes: number[]): number | null {
+    if (chunkTimes.length < 4) return null;
+    const first = chunkTimes.slice(0, 3).sort((a, b) => a - b);
+    return Math.max(1, first[1]);
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) this.loadPromise = this.readFromStorage();
+    return this.loadPromise;
+  }
+
+  private async readFromStorage() {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      const parsed = stored ? JSON.parse(stored) : [];
+      this.samples = Array.isArray(parsed) ? parsed : [];
+    } catch {
+      this.samples = [];
+    }
+  }
+
+  private async save() {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.samples));
+    } catch (e) {
+      console.warn('Failed to save memory samples', e);
+    }
+  }
+}
+
+export const memoryProbe = new MemoryProbe();
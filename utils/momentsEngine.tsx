@@ -1,6 +1,9 @@
 import type { DeviceInfo, DeviceCapabilities, RuntimeSignals } from '../types';
 import type { PhoneMoment } from '../types';
 import { notificationEngine } from './notificationsEngine';
+import { capabilityHistory, FitnessSummary } from './capabilityHistory';
+import { chargingSessionTracker, ChargeInsight } from './chargingSessions';
+import { storageSampler, StorageForecast } from './storageSampler';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 type SeenMomentsMap = Record<string, number>;
@@ -11,6 +14,13 @@ const STORAGE_KEYS = {
   stepStats: '@moment_step_stats',
 };
 
+// Async-loaded inputs for moment generation
+type MomentContext = {
+  fitness: FitnessSummary | null;
+  chargeInsights: ChargeInsight[];
+  storageForecast: StorageForecast | null;
+};
+
 type StepStats = {
   lastActiveHour: number;
   consecutiveInactiveHours: number;
@@ -39,6 +49,9 @@ export class MomentEngine {
   private readonly NOTIFICATION_COOLDOWN = 4 * 60 * 60 * 1000;
   private readonly STEPS_CHECK_INTERVAL = 15 * 60 * 1000;
   private readonly STEP_GOAL = 5000;
+  // Predicted days until storage is full that count as pressure
+  private readonly STORAGE_PRESSURE_DAYS = 14;
+  private readonly STORAGE_FORECAST_MIN_CONFIDENCE = 40;
 
   private notifiedMoments: Record<string, number> = {};
   private seenMoments: SeenMomentsMap = {};
@@ -60,9 +73,10 @@ export class MomentEngine {
     }
 
     await this.loadPersistence();
+    const context = await this.loadContext();
 
     const moments = this.resolveConflicts(
-      this.generateMoments(info, caps, runtime)
+      this.generateMoments(info, caps, runtime, context)
     );
 
     this.lastGeneratedMoments = moments;
@@ -109,7 +123,8 @@ export class MomentEngine {
   private generateMoments(
     info: DeviceInfo,
     caps: DeviceCapabilities,
-    runtime: RuntimeSignals
+    runtime: RuntimeSignals,
+    context: MomentContext
   ): PhoneMoment[] {
     const now = Date.now();
     const date = new Date();
@@ -193,7 +208,9 @@ export class MomentEngine {
         id: 'battery-low',
         emoji: '🔋',
         title: 'Low battery',
-        description: 'Battery under 20%, consider charging soon.',
+        description: caps.batteryStress?.estimatedHeavyUsageMinutes
+          ? `Battery under 20%, about ${caps.batteryStress.estimatedHeavyUsageMinutes} min of heavy use left. Consider charging soon.`
+          : 'Battery under 20%, consider charging soon.',
         priority: 5,
         expiresAt: now + 2 * 60 * 60 * 1000,
         category: 'battery',
@@ -201,9 +218,77 @@ export class MomentEngine {
       });
     }
 
+    /* ---------- Trends ---------- */
+
+    if (context.fitness?.isLessFit && context.fitness.message) {
+      moments.push({
+        id: 'fitness-declining',
+        emoji: '📉',
+        title: 'Your phone is getting less fit',
+        description: context.fitness.message,
+        priority: 4,
+        expiresAt: endOfDay,
+        category: 'trends',
+        suggestion: 'Check storage and battery for what changed.',
+        notifyEligible: false,
+      });
+    }
+
+    /* ---------- Storage Pressure ---------- */
+
+    const storageMoment = this.generateStoragePressureMoment(context.storageForecast, now);
+    if (storageMoment) moments.push(storageMoment);
+
+    /* ---------- Charging Habits ---------- */
+
+    for (const insight of context.chargeInsights) {
+      moments.push({
+        id: `charge-${insight.id}`,
+        emoji: insight.emoji,
+        title: insight.title,
+        description: insight.description,
+        priority: insight.kind === 'warning' ? 4 : 2,
+        expiresAt: endOfDay,
+        category: 'battery',
+        notifyEligible: false,
+      });
+    }
+
     return moments;
   }
 
+  /* =======================
+     STORAGE
+  ======================= */
+
+  private generateStoragePressureMoment(
+    forecast: StorageForecast | null,
+    now: number
+  ): PhoneMoment | null {
+    if (!forecast || forecast.confidence < this.STORAGE_FORECAST_MIN_CONFIDENCE) return null;
+
+    const daysUntilFull = forecast.daysUntilFull;
+    if (daysUntilFull === null || daysUntilFull >= this.STORAGE_PRESSURE_DAYS) return null;
+
+    const gbPerDay = Math.abs(forecast.slopeBytesPerDay) / (1024 ** 3);
+    const lowMark = forecast.thresholds.find(t => t.freePercent === 10);
+    const days = Math.max(1, Math.round(daysUntilFull));
+
+    return {
+      id: 'storage-filling',
+      emoji: '💾',
+      title: days <= 3 ? 'Storage almost full' : 'Storage filling up',
+      description: lowMark?.daysUntil === 0
+        ? `Under 10% free and dropping ${gbPerDay.toFixed(1)} GB a day, full in about ${days} ${days === 1 ? 'day' : 'days'}.`
+        : `Free space is dropping ${gbPerDay.toFixed(1)} GB a day, full in about ${days} ${days === 1 ? 'day' : 'days'}.`,
+      priority: days <= 3 ? 5 : 4,
+      expiresAt: now + 24 * 60 * 60 * 1000,
+      category: 'storage',
+      suggestion: 'Clear app caches or move photos and videos off the phone.',
+      notifyEligible: true,
+    };
+  }
+
   /* =======================
      STEPS
   ======================= */
@@ -353,6 +438,24 @@ export class MomentEngine {
     }
   }
 
+  private async loadContext(): Promise<MomentContext> {
+    const [fitness, chargeInsights, storageForecast] = await Promise.all([
+      capabilityHistory.getFitnessSummary().catch(e => {
+        console.warn('Failed to load fitness summary', e);
+        return null;
+      }),
+      chargingSessionTracker.getInsights().catch(e => {
+        console.warn('Failed to load charge insights', e);
+        return [];
+      }),
+      storageSampler.getForecast().catch(e => {
+        console.warn('Failed to load storage forecast', e);
+        return null;
+      }),
+    ]);
+    return { fitness, chargeInsights, storageForecast };
+  }
+
   private async saveStepStats() {
     this.stepStats.lastLoadTime = Date.now();
     try {
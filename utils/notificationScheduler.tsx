@@ -421,7 +421,7 @@ class NotificationScheduler {
       await scheduleWeeklyNotification(
         {
           title: '🧹 Weekly cleanup reminder',
-          body: 'Good time to clear cache and organize files.',
+          body: 'Good time to organize files. Phonefit can clear its own caches from the Storage screen.',
           sound: true,
           data: {
             type: 'scheduled_moment',
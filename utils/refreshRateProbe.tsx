@@ -0,0 +1,177 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { DeviceInfo, MeasuredRefreshRate } from '../capabilities/types';
+import { BenchmarkCancelledError, BenchmarkRunOptions } from './benchmarkUtils';
+
+const STORAGE_KEY = '@phonefit_refresh_rate';
+
+const DEFAULT_PROBE_MS = 2000;
+// Display settings can change; re-probe after this long
+const MAX_RESULT_AGE = 30 * 24 * 60 * 60 * 1000;
+const MIN_FRAMES = 30;
+// Longer gaps are hitches (GC, JS busy) rather than display intervals
+const MAX_FRAME_INTERVAL_MS = 100;
+// Share of frames a rate needs before it counts as a mode the display runs in
+const MIN_MODE_SHARE = 0.15;
+// Sorted intervals jumping by more than this factor start a new cluster;
+// jitter around one vsync period stays within a cluster
+const CLUSTER_SPLIT_RATIO = 1.15;
+
+const COMMON_RATES = [30, 48, 50, 60, 72, 90, 96, 120, 144, 165];
+
+const snapToCommonRate = (hz: number) =>
+  COMMON_RATES.reduce((best, rate) => (Math.abs(rate - hz) < Math.abs(best - hz) ? rate : best));
+
+const median = (sorted: number[]) => sorted[Math.floor(sorted.length / 2)];
+
+// Groups sorted intervals into runs with no large jump between neighbours
+const clusterIntervals = (sorted: number[]): number[][] => {
+  const clusters: number[][] = [[sorted[0]]];
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i] > sorted[i - 1] * CLUSTER_SPLIT_RATIO) clusters.push([]);
+    clusters[clusters.length - 1].push(sorted[i]);
+  }
+  return clusters;
+};
+
+/**
+ * Refresh Rate Probe
+ * Times requestAnimationFrame callbacks over a short window to measure
+ * the rate the display actually achieves, instead of guessing from the
+ * model name. Intervals are grouped into clusters around each vsync period
+ * and each cluster's median is snapped to a common rate, so jitter on a
+ * single frame can't promote a 60 Hz panel to 72 Hz. Frames clustering at
+ * several rates mark a variable-rate display.
+ *
+ * Jank at half rate can look like a rate switch, so probe on an idle screen.
+ */
+export class RefreshRateProbe {
+  private cached: MeasuredRefreshRate | null = null;
+  private loadPromise: Promise<void> | null = null;
+
+  async measure(
+    options: BenchmarkRunOptions & { durationMs?: number } = {}
+  ): Promise<MeasuredRefreshRate> {
+    const { signal, onProgress, durationMs = DEFAULT_PROBE_MS } = options;
+    const timestamps = await this.collectFrames(durationMs, signal, onProgress);
+    const result = this.analyze(timestamps);
+
+    await this.load();
+    this.cached = result;
+    await this.save();
+    return result;
+  }
+
+  async getCached(): Promise<MeasuredRefreshRate | undefined> {
+    await this.load();
+    return this.cached ?? undefined;
+  }
+
+  async needsMeasurement(): Promise<boolean> {
+    const cached = await this.getCached();
+    return !cached || Date.now() - cached.timestamp > MAX_RESULT_AGE;
+  }
+
+  /* =======================
+     HELPERS
+  ======================= */
+
+  private collectFrames(
+    durationMs: number,
+    signal?: AbortSignal,
+    onProgress?: BenchmarkRunOptions['onProgress']
+  ): Promise<number[]> {
+    return new Promise((resolve, reject) => {
+      const timestamps: number[] = [];
+      let frameId = 0;
+
+      const onAbort = () => {
+        cancelAnimationFrame(frameId);
+        reject(new BenchmarkCancelledError());
+      };
+      if (signal?.aborted) return onAbort();
+      signal?.addEventListener('abort', onAbort);
+
+      const onFrame = (timestamp: number) => {
+        timestamps.push(timestamp);
+        const elapsed = timestamp - timestamps[0];
+        onProgress?.(Math.min(1, elapsed / durationMs), 'frame timing');
+
+        if (elapsed >= durationMs) {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(timestamps);
+        } else {
+          frameId = requestAnimationFrame(onFrame);
+        }
+      };
+      frameId = requestAnimationFrame(onFrame);
+    });
+  }
+
+  private analyze(timestamps: number[]): MeasuredRefreshRate {
+    const intervals: number[] = [];
+    for (let i = 1; i < timestamps.length; i++) {
+      const interval = timestamps[i] - timestamps[i - 1];
+      if (interval > 0 && interval <= MAX_FRAME_INTERVAL_MS) intervals.push(interval);
+    }
+    if (intervals.length < MIN_FRAMES) {
+      throw new Error(`Only ${intervals.length} frames rendered during the refresh rate probe`);
+    }
+
+    const sorted = [...intervals].sort((a, b) => a - b);
+    const clusters = clusterIntervals(sorted);
+    const dominant = clusters.reduce((best, cluster) => (cluster.length > best.length ? cluster : best));
+
+    // Clusters with enough frames are modes; fastest first since intervals are sorted
+    const modes = clusters.filter(cluster => cluster.length / intervals.length >= MIN_MODE_SHARE);
+    const modeRates = [...new Set((modes.length ? modes : [dominant]).map(c => snapToCommonRate(1000 / median(c))))];
+
+    return {
+      peakHz: modeRates[0],
+      typicalHz: snapToCommonRate(1000 / median(dominant)),
+      minHz: modeRates[modeRates.length - 1],
+      variable: modeRates.length >= 2,
+      frames: intervals.length,
+      timestamp: Date.now(),
+    };
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) this.loadPromise = this.readFromStorage();
+    return this.loadPromise;
+  }
+
+  private async readFromStorage() {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      this.cached = stored ? JSON.parse(stored) : null;
+    } catch {
+      this.cached = null;
+    }
+  }
+
+  private async save() {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.cached));
+    } catch (e) {
+      console.warn('Failed to save refresh rate', e);
+    }
+  }
+}
+
+/**
+ * Replace the guessed refresh rate with a measured one when available
+ */
+export function applyMeasuredRefreshRate<T extends DeviceInfo>(
+  info: T,
+  measured?: MeasuredRefreshRate
+): T {
+  if (!measured) return info;
+  return {
+    ...info,
+    refreshRate: measured.peakHz,
+    variableRefreshRate: measured.variable,
+    provenance: { ...info.provenance, refreshRate: 'measured', variableRefreshRate: 'measured' },
+  };
+}
+
+export const refreshRateProbe = new RefreshRateProbe();
@@ -0,0 +1,187 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { MeasuredRenderPerformance, RenderLoadLevel } from '../capabilities/types';
+import { BenchmarkRunOptions, getAppVersion, throwIfCancelled } from './benchmarkUtils';
+
+const STORAGE_KEY = '@phonefit_render_benchmark';
+
+// Animated shapes per level, doubling so the breaking point shows within a few levels
+export const RENDER_LOAD_LEVELS = [10, 25, 50, 100, 200, 400];
+// Lets mounting and the first animation frames settle before timing
+const WARMUP_MS = 500;
+const DEFAULT_LEVEL_MS = 2000;
+// A frame is dropped once it takes this many display intervals
+const DROPPED_FRAME_FACTOR = 1.5;
+// Average fps that still counts as holding 60 / 30 (a 60Hz panel averages just under 60)
+const HOLDS_60_FPS = 55;
+const HOLDS_30_FPS = 28;
+// Heavier levels only take longer to say the same thing
+const STOP_BELOW_FPS = 20;
+
+export interface RenderFrameStats {
+  frames: number;
+  totalMs: number;               // Sum of frame intervals
+  dropped: number;               // 0 when no threshold was given
+  intervals: number[];           // Every frame interval in ms, in order
+}
+
+/**
+ * What the on-screen stage does for the benchmark. The stage renders the
+ * shapes and counts UI-thread frames; the benchmark only drives it.
+ */
+export interface RenderStage {
+  setLoad: (elements: number) => Promise<void>; // Resolves once the shapes are mounted
+  startFrames: (droppedAboveMs: number | null) => void; // null: don't count dropped frames
+  stopFrames: () => RenderFrameStats;
+}
+
+/**
+ * Render Benchmark
+ * Animates an increasing number of SVG shapes and times UI-thread frames at
+ * each load, to find where the device drops below 60 and 30fps. Needs a
+ * mounted RenderStressStage; the Benchmarks screen provides one.
+ * Dropped frames are only counted against a measured display rate; a
+ * guessed 120Hz would count every 60Hz frame as dropped.
+ */
+export class RenderBenchmark {
+  private cached: MeasuredRenderPerformance | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private stage: RenderStage | null = null;
+
+  /**
+   * Called by the stage component on mount; returns the detach function
+   */
+  attachStage(stage: RenderStage): () => void {
+    this.stage = stage;
+    return () => {
+      if (this.stage === stage) this.stage = null;
+    };
+  }
+
+  isStageAttached(): boolean {
+    return this.stage !== null;
+  }
+
+  async run(
+    options: BenchmarkRunOptions & { displayHz?: number; levelMs?: number } = {}
+  ): Promise<MeasuredRenderPerformance> {
+    const { signal, onProgress, displayHz, levelMs = DEFAULT_LEVEL_MS } = options;
+    const stage = this.stage;
+    if (!stage) throw new Error('Render benchmark needs a mounted render stage');
+
+    const droppedAboveMs = displayHz ? (1000 / displayHz) * DROPPED_FRAME_FACTOR : null;
+    const levels: RenderLoadLevel[] = [];
+
+    try {
+      for (const [index, elements] of RENDER_LOAD_LEVELS.entries()) {
+        throwIfCancelled(signal);
+        onProgress?.(index / RENDER_LOAD_LEVELS.length, `${elements} shapes`);
+
+        await stage.setLoad(elements);
+        await this.wait(WARMUP_MS, signal);
+        stage.startFrames(droppedAboveMs);
+        await this.wait(levelMs, signal);
+
+        const level = this.toLevel(elements, stage.stopFrames(), droppedAboveMs !== null);
+        levels.push(level);
+        if (level.averageFps < STOP_BELOW_FPS) break;
+      }
+    } finally {
+      stage.stopFrames();
+      await stage.setLoad(0);
+    }
+
+    onProgress?.(1, 'done');
+    const result = this.analyze(levels, displayHz);
+
+    await this.load();
+    this.cached = result;
+    await this.save();
+    return result;
+  }
+
+  /**
+   * Last result for this app version, if any
+   */
+  async getCached(): Promise<MeasuredRenderPerformance | undefined> {
+    await this.load();
+    if (!this.cached || this.cached.appVersion !== getAppVersion()) return undefined;
+    return this.cached;
+  }
+
+  /* =======================
+     ANALYSIS
+  ======================= */
+
+  private toLevel(elements: number, stats: RenderFrameStats, countDropped: boolean): RenderLoadLevel {
+    const averageFrameMs = stats.frames > 0 ? stats.totalMs / stats.frames : Infinity;
+    const sorted = [...stats.intervals].sort((a, b) => a - b);
+    const percentile = (p: number) => sorted.length
+      ? Math.round(sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))] * 10) / 10
+      : Infinity;
+
+    return {
+      elements,
+      averageFps: stats.frames > 0 ? Math.round((1000 / averageFrameMs) * 10) / 10 : 0,
+      averageFrameMs: Math.round(averageFrameMs * 10) / 10,
+      p50FrameMs: percentile(0.5),
+      p95FrameMs: percentile(0.95),
+      ...(countDropped && { droppedFrames: stats.dropped }),
+      frames: stats.frames,
+    };
+  }
+
+  private analyze(levels: RenderLoadLevel[], displayHz?: number): MeasuredRenderPerformance {
+    const heaviestHolding = (fps: number) =>
+      levels.filter(level => level.averageFps >= fps).reduce((max, level) => Math.max(max, level.elements), 0);
+    const firstBelow = (fps: number) => levels.find(level => level.averageFps < fps)?.elements;
+
+    return {
+      levels,
+      held60Elements: heaviestHolding(HOLDS_60_FPS),
+      held30Elements: heaviestHolding(HOLDS_30_FPS),
+      below60At: firstBelow(HOLDS_60_FPS),
+      below30At: firstBelow(HOLDS_30_FPS),
+      displayHz,
+      timestamp: Date.now(),
+      appVersion: getAppVersion(),
+    };
+  }
+
+  /* =======================
+     HELPERS
+  ======================= */
+
+  // Sleeps in short slices so cancelling doesn't wait out a whole level
+  private async wait(ms: number, signal?: AbortSignal) {
+    const until = Date.now() + ms;
+    while (Date.now() < until) {
+      throwIfCancelled(signal);
+      await new Promise(resolve => setTimeout(resolve, Math.min(100, until - Date.now())));
+    }
+    throwIfCancelled(signal);
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) this.loadPromise = this.readFromStorage();
+    return this.loadPromise;
+  }
+
+  private async readFromStorage() {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      this.cached = stored ? JSON.parse(stored) : null;
+    } catch {
+      this.cached = null;
+    }
+  }
+
+  private async save() {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.cached));
+    } catch (e) {
+      console.warn('Failed to save render benchmark', e);
+    }
+  }
+}
+
+export const renderBenchmark = new RenderBenchmark();
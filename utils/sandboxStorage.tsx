@@ -0,0 +1,377 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
+import { yieldToEventLoop } from './benchmarkUtils';
+import { batterySampler } from './batterySampler';
+import { capabilityHistory } from './capabilityHistory';
+import { STORAGE_BENCHMARK_DIR } from './storageBenchmark';
+import { storageSampler } from './storageSampler';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export type SandboxRoot = 'document' | 'cache';
+
+export interface SandboxFolderUsage {
+  root: SandboxRoot;
+  name: string;                  // Top-level folder; '' for files directly in the root
+  bytes: number;
+  fileCount: number;
+}
+
+export interface SandboxFileTypeUsage {
+  extension: string;             // Lowercase without the dot; '' when there is none
+  bytes: number;
+  fileCount: number;
+}
+
+// An AsyncStorage key; Phonefit's history and samples live here, not in files
+export interface SandboxStoreUsage {
+  key: string;
+  bytes: number;
+}
+
+export interface SandboxStorageReport {
+  totalBytes: number;            // Files plus app data
+  fileCount: number;
+  rootBytes: Record<SandboxRoot, number>;
+  folders: SandboxFolderUsage[]; // Largest first
+  fileTypes: SandboxFileTypeUsage[];
+  storeBytes: number;
+  stores: SandboxStoreUsage[];   // Largest first
+  truncated: boolean;            // Stopped at the file limit
+  scannedAt: number;
+}
+
+export type CleanupRuleId = 'benchmarkTemp' | 'oldSnapshots' | 'oldBatterySamples' | 'oldStorageSamples';
+
+// A recorded history that can drop entries older than a cutoff
+export interface PrunableStore {
+  measureBefore(cutoffMs: number): Promise<{ entries: number; bytes: number }>;
+  pruneBefore(cutoffMs: number): Promise<number>;
+}
+
+interface CleanupRuleBase {
+  id: CleanupRuleId;
+  label: string;
+  minAgeMs: number;              // Anything newer is kept
+}
+
+export interface FolderCleanupRule extends CleanupRuleBase {
+  kind: 'folder';
+  root: SandboxRoot;
+  folder: string;
+}
+
+export interface StoreCleanupRule extends CleanupRuleBase {
+  kind: 'store';
+  store: PrunableStore;
+}
+
+export type CleanupRule = FolderCleanupRule | StoreCleanupRule;
+
+export interface CleanupCandidate {
+  ruleId: CleanupRuleId;
+  uri: string;
+  bytes: number;
+  modifiedAt: number | null;
+}
+
+export interface CleanupPlan {
+  candidates: CleanupCandidate[]; // Files from folder rules
+  bytes: number;
+  rules: { rule: CleanupRule; count: number; bytes: number }[]; // Files or store entries per rule
+  createdAt: number;
+}
+
+export interface CleanupResult {
+  deletedFiles: number;
+  removedEntries: number;
+  freedBytes: number;
+  failedFiles: number;
+}
+
+// Only Phonefit's own scratch folder and histories are ever cleaned.
+// Histories keep 30 days, the longest window any trend, forecast or health estimate reads.
+export const CLEANUP_RULES: CleanupRule[] = [
+  {
+    id: 'benchmarkTemp',
+    kind: 'folder',
+    label: 'Leftover benchmark files',
+    root: 'cache',
+    folder: STORAGE_BENCHMARK_DIR,
+    // A run in progress keeps touching its files
+    minAgeMs: 10 * MINUTE_MS,
+  },
+  {
+    id: 'oldSnapshots',
+    kind: 'store',
+    label: 'Capability snapshots older than 30 days',
+    store: capabilityHistory,
+    minAgeMs: 30 * DAY_MS,
+  },
+  {
+    id: 'oldBatterySamples',
+    kind: 'store',
+    label: 'Battery samples older than 30 days',
+    store: batterySampler,
+    minAgeMs: 30 * DAY_MS,
+  },
+  {
+    id: 'oldStorageSamples',
+    kind: 'store',
+    label: 'Storage samples older than 30 days',
+    store: storageSampler,
+    minAgeMs: 30 * DAY_MS,
+  },
+];
+
+const isDirectory = (entry: Directory | File): entry is Directory => entry instanceof Directory;
+
+/**
+ * Sandbox Storage
+ * Walks the app's document and cache directories and sizes its AsyncStorage
+ * keys to report where Phonefit's own space goes, and cleans up the scratch
+ * folder and old history Phonefit owns. Cleanup is always planned first so
+ * the UI can show a dry run.
+ */
+export class SandboxStorageAnalyzer {
+  private readonly MAX_FILES = 5000;
+  // Entries handled between yields so a large sandbox doesn't freeze the UI
+  private readonly YIELD_EVERY = 200;
+
+  /* =======================
+     ANALYSIS
+  ======================= */
+
+  async analyze(): Promise<SandboxStorageReport> {
+    const folders = new Map<string, SandboxFolderUsage>();
+    const fileTypes = new Map<string, SandboxFileTypeUsage>();
+    const rootBytes: Record<SandboxRoot, number> = { document: 0, cache: 0 };
+    let fileCount = 0;
+    let truncated = false;
+
+    for (const root of ['document', 'cache'] as SandboxRoot[]) {
+      const completed = await this.walk(this.getRoot(root), async (file, topFolder) => {
+        if (fileCount >= this.MAX_FILES) return false;
+        fileCount++;
+
+        const bytes = file.size || 0;
+        rootBytes[root] += bytes;
+
+        const folderKey = `${root}/${topFolder}`;
+        const folder = folders.get(folderKey) ?? { root, name: topFolder, bytes: 0, fileCount: 0 };
+        folder.bytes += bytes;
+        folder.fileCount++;
+        folders.set(folderKey, folder);
+
+        const extension = this.getExtension(file);
+        const type = fileTypes.get(extension) ?? { extension, bytes: 0, fileCount: 0 };
+        type.bytes += bytes;
+        type.fileCount++;
+        fileTypes.set(extension, type);
+
+        return true;
+      });
+      if (!completed) truncated = true;
+    }
+
+    const stores = await this.measureStores();
+    const storeBytes = stores.reduce((sum, store) => sum + store.bytes, 0);
+
+    return {
+      totalBytes: rootBytes.document + rootBytes.cache + storeBytes,
+      fileCount,
+      rootBytes,
+      folders: [...folders.values()].sort((a, b) => b.bytes - a.bytes),
+      fileTypes: [...fileTypes.values()].sort((a, b) => b.bytes - a.bytes),
+      storeBytes,
+      stores,
+      truncated,
+      scannedAt: Date.now(),
+    };
+  }
+
+  /* =======================
+     CLEANUP
+  ======================= */
+
+  /**
+   * Dry run: what a cleanup would delete, without deleting anything
+   */
+  async previewCleanup(rules: CleanupRule[] = CLEANUP_RULES): Promise<CleanupPlan> {
+    const now = Date.now();
+    const candidates: CleanupCandidate[] = [];
+    const summaries: CleanupPlan['rules'] = [];
+
+    for (const rule of rules) {
+      if (rule.kind === 'store') {
+        const { entries, bytes } = await rule.store.measureBefore(now - rule.minAgeMs);
+        summaries.push({ rule, count: entries, bytes });
+        continue;
+      }
+
+      const dir = new Directory(this.getRoot(rule.root), rule.folder);
+      let fileCount = 0;
+      let bytes = 0;
+
+      if (dir.exists) {
+        await this.walk(dir, async file => {
+          const modifiedAt = file.modificationTime;
+          // Unknown age counts as old only for scratch files
+          const oldEnough = modifiedAt === null
+            ? rule.id === 'benchmarkTemp'
+            : now - modifiedAt >= rule.minAgeMs;
+          if (!oldEnough) return true;
+
+          const size = file.size || 0;
+          candidates.push({ ruleId: rule.id, uri: file.uri, bytes: size, modifiedAt });
+          fileCount++;
+          bytes += size;
+          return true;
+        });
+      }
+
+      summaries.push({ rule, count: fileCount, bytes });
+    }
+
+    return {
+      candidates,
+      bytes: summaries.reduce((sum, s) => sum + s.bytes, 0),
+      rules: summaries,
+      createdAt: now,
+    };
+  }
+
+  /**
+   * Carry out a previewed plan. Files that changed since the preview are
+   * re-checked against their rule and skipped if now too new; stores drop
+   * entries older than the cutoff the preview used.
+   */
+  async runCleanup(plan: CleanupPlan): Promise<CleanupResult> {
+    const now = Date.now();
+    let deletedFiles = 0;
+    let removedEntries = 0;
+    let freedBytes = 0;
+    let failedFiles = 0;
+
+    for (const { rule, count, bytes } of plan.rules) {
+      if (rule.kind !== 'store' || count === 0) continue;
+      try {
+        removedEntries += await rule.store.pruneBefore(plan.createdAt - rule.minAgeMs);
+        freedBytes += bytes;
+      } catch (e) {
+        console.warn('Failed to prune', rule.id, e);
+      }
+    }
+
+    for (const candidate of plan.candidates) {
+      const rule = CLEANUP_RULES.find(r => r.id === candidate.ruleId);
+      if (!rule || rule.kind !== 'folder' || !this.isInsideRule(candidate.uri, rule)) {
+        failedFiles++;
+        continue;
+      }
+
+      try {
+        const file = new File(candidate.uri);
+        if (!file.exists) continue;
+
+        const modifiedAt = file.modificationTime;
+        if (modifiedAt !== null && now - modifiedAt < rule.minAgeMs) continue;
+
+        const size = file.size || 0;
+        file.delete();
+        deletedFiles++;
+        freedBytes += size;
+      } catch (e) {
+        console.warn('Failed to delete', candidate.uri, e);
+        failedFiles++;
+      }
+    }
+
+    this.removeEmptyBenchmarkFolder(plan);
+
+    return { deletedFiles, removedEntries, freedBytes, failedFiles };
+  }
+
+  /* =======================
+     HELPERS
+  ======================= */
+
+  private getRoot(root: SandboxRoot): Directory {
+    return root === 'document' ? Paths.document : Paths.cache;
+  }
+
+  private getExtension(file: File): string {
+    return file.extension.replace(/^\./, '').toLowerCase();
+  }
+
+  private isInsideRule(uri: string, rule: FolderCleanupRule): boolean {
+    const folderUri = new Directory(this.getRoot(rule.root), rule.folder).uri.replace(/\/?$/, '/');
+    return uri.startsWith(folderUri);
+  }
+
+  // The benchmark scratch dir is recreated on every run, so an empty one can go
+  private removeEmptyBenchmarkFolder(plan: CleanupPlan) {
+    const benchmark = plan.rules.find(r => r.rule.id === 'benchmarkTemp');
+    if (!benchmark?.count) return;
+
+    try {
+      const dir = new Directory(Paths.cache, STORAGE_BENCHMARK_DIR);
+      if (dir.exists && dir.list().length === 0) dir.delete();
+    } catch (e) {
+      console.warn('Failed to remove benchmark folder', e);
+    }
+  }
+
+  // Key plus value length; AsyncStorage keeps values as strings
+  private async measureStores(): Promise<SandboxStoreUsage[]> {
+    try {
+      const keys = await AsyncStorage.getAllKeys();
+      const entries = await AsyncStorage.multiGet(keys);
+      return entries
+        .map(([key, value]) => ({ key, bytes: key.length + (value?.length ?? 0) }))
+        .sort((a, b) => b.bytes - a.bytes);
+    } catch (e) {
+      console.warn('Failed to measure app data', e);
+      return [];
+    }
+  }
+
+  /**
+   * Depth-first walk calling visit for every file with the name of the
+   * top-level folder it sits in. Returns false if visit stopped the walk.
+   */
+  private async walk(
+    dir: Directory,
+    visit: (file: File, topFolder: string) => Promise<boolean>
+  ): Promise<boolean> {
+    const stack: { dir: Directory; topFolder: string | null }[] = [{ dir, topFolder: null }];
+    let handled = 0;
+
+    while (stack.length) {
+      const { dir: current, topFolder } = stack.pop()!;
+
+      let entries: (Directory | File)[];
+      try {
+        entries = current.list();
+      } catch (e) {
+        console.warn('Failed to list', current.uri, e);
+        continue;
+      }
+
+      for (const entry of entries) {
+        if (++handled % this.YIELD_EVERY === 0) await yieldToEventLoop();
+
+        if (isDirectory(entry)) {
+          stack.push({ dir: entry, topFolder: topFolder ?? entry.name });
+        } else if (!(await visit(entry, topFolder ?? ''))) {
+          return false;
+        }
+      }
+    }
+
+    return true;
+  }
+}
+
+export const sandboxStorage = new SandboxStorageAnalyzer();
@@ -1,8 +1,26 @@
 import { TIERS } from '../constants/tiers';
-import type { DeviceInfo } from '../types';
+import type { DeviceInfo, RuntimeSignals } from '../types';
+import { calculateFeatureUnlocks, EngineCapabilities } from '../capabilities/capabilityEngine';
+import type { DailyUsageCapability } from '../capabilities/dailyUsageCapability';
+import { assessVideoModes, VideoRecordingCapability } from '../capabilities/videoRecordingCapability';
+import type { BatteryStressCapability } from '../capabilities/batteryStressCapability';
+import type {
+  BatteryCapacity,
+  BatteryCapacitySource,
+  MeasuredStorageThroughput,
+} from '../capabilities/types';
+import { DEFAULT_BATTERY_CAPACITY_MAH } from './batteryCapacity';
+import { applyInputConfidence, CapabilityInput, deviceInput } from '../capabilities/provenance';
+
+// Legacy tiers run 1-7, capability engine tiers run 1-5
+const toEngineTier = (legacyTier: number) =>
+  Math.max(1, Math.min(5, Math.round((legacyTier * 5) / 7)));
 
 export class ScoringEngine {
-  static calculatePerformanceTier(deviceInfo: DeviceInfo): number {
+  static calculatePerformanceTier(
+    deviceInfo: DeviceInfo,
+    storageThroughput?: MeasuredStorageThroughput
+  ): number {
     let score = 0;
     
     // CPU Score (0-30 points)
@@ -39,8 +57,12 @@ export class ScoringEngine {
     else score += 3;
     
     // Storage Type Score (0-15 points)
-    // Assume UFS storage for newer devices
-    if (androidVersion >= 10) score += 10;
+    // Measured sequential write when benchmarked, else assume UFS storage for newer devices
+    if (storageThroughput) {
+      if (storageThroughput.sequentialWriteMBps >= 200) score += 15;
+      else if (storageThroughput.sequentialWriteMBps >= 80) score += 10;
+      else score += 5;
+    } else if (androidVersion >= 10) score += 10;
     else score += 5;
     
     // Screen Refresh Rate (0-15 points)
@@ -90,8 +112,14 @@ export class ScoringEngine {
     }
   }
   
-  static estimateBatteryUsage(batteryCapacity?: number): { light: string; normal: string; heavy: string } {
-    const capacity = batteryCapacity || 4000; // Default 4000mAh
+  static estimateBatteryUsage(batteryCapacity?: BatteryCapacity): {
+    light: string;
+    normal: string;
+    heavy: string;
+    capacityMah: number;
+    capacitySource: BatteryCapacitySource;
+  } {
+    const capacity = batteryCapacity?.mAh || DEFAULT_BATTERY_CAPACITY_MAH;
     
     // Rough estimates based on capacity
     const lightHours = Math.round((capacity / 200) * 10) / 10; // 5mA per hour for light
@@ -102,21 +130,8 @@ export class ScoringEngine {
       light: `${lightHours} hours for light use`,
       normal: `${normalHours} hours for typical use`,
       heavy: `${heavyHours} hours for intensive use`,
-    };
-  }
-  
-  static calculateStorageHumanReadable(freeBytes: number) {
-    const freeGB = freeBytes / (1024 * 1024 * 1024);
-    
-    // Rough estimates
-    const movies = Math.floor(freeGB / 1.5); // 1.5GB per HD movie
-    const photos = Math.floor(freeGB * 300); // 3.3MB per photo
-    const apps = Math.floor(freeGB / 0.1); // 100MB per app average
-    
-    return {
-      movies: movies > 0 ? `Space for ${movies} HD movies` : 'Limited movie storage',
-      photos: photos > 0 ? `Room for ${photos.toLocaleString()} photos` : 'Limited photo storage',
-      apps: apps > 0 ? `Fits ${apps} average apps` : 'Limited app storage',
+      capacityMah: capacity,
+      capacitySource: batteryCapacity?.source ?? 'default',
     };
   }
   
@@ -155,16 +170,108 @@ static calculateDailyUsagePattern(deviceInfo: DeviceInfo): {
     };
   }
 }
+
+  /**
+   * Fallback for when the capability engine fails.
+   * Produces the same shape as buildCapabilities from the legacy tier scores.
+   */
+  static buildFallbackCapabilities(
+    deviceInfo: DeviceInfo,
+    runtime: RuntimeSignals
+  ): EngineCapabilities {
+    const confidence = this.getConfidenceScore(deviceInfo);
+    const perfTier = this.calculatePerformanceTier(deviceInfo, runtime.storageThroughput);
+    const gamingTier = this.calculateGamingTier(deviceInfo);
+    const gamingInfo = this.getGamingDescription(gamingTier);
+    const legacyDaily = this.calculateDailyUsagePattern(deviceInfo);
+
+    const performance = {
+      tier: toEngineTier(perfTier),
+      score: TIERS[perfTier as keyof typeof TIERS]?.score ?? confidence,
+      confidence,
+      why: `Your phone is ${perfTier >= 4 ? 'quite' : ''} capable`,
+    };
+
+    const gaming = {
+      tier: toEngineTier(gamingTier),
+      score: TIERS[gamingTier as keyof typeof TIERS]?.score ?? 0,
+      confidence: Math.max(confidence - 10, 60),
+      description: gamingInfo.description,
+      canRunAAA: gamingInfo.canRunAAA,
+      canRunPopular: gamingInfo.canRunPopular,
+      recommendedSettings: [],
+      why: gamingInfo.description,
+    };
+
+    // Video: legacy engine only knows performance tier and free storage
+    const freeStorageGB = runtime.freeStorage / (1024 * 1024 * 1024);
+    const videoOk = performance.tier >= 3 && freeStorageGB >= 10 && runtime.batteryLevel >= 0.3;
+    const videoRecording: VideoRecordingCapability = {
+      tier: videoOk ? 3 : 2,
+      score: videoOk ? 75 : 40,
+      confidence: 50,
+      status: videoOk ? 'Good' : 'Risky',
+      limitations: videoOk ? [] : ['Limited information - estimated from performance tier'],
+      recommendations: videoOk ? [] : ['Consider recording in 1080p instead'],
+      ...assessVideoModes(runtime, performance.tier),
+      why: 'Estimated from performance tier, free storage and battery level',
+    };
+
+    const capacity = runtime.batteryCapacity ?? { mAh: DEFAULT_BATTERY_CAPACITY_MAH, source: 'default' as const };
+    const heavyMinutes = Math.max(
+      10,
+      Math.round(runtime.batteryLevel * 180 * (capacity.mAh / DEFAULT_BATTERY_CAPACITY_MAH))
+    );
+    const stressLevel: BatteryStressCapability['stressLevel'] =
+      heavyMinutes <= 20 ? 'Critical' :
+      heavyMinutes <= 45 ? 'High' :
+      heavyMinutes <= 90 ? 'Moderate' : 'Low';
+    const batteryStress: BatteryStressCapability = {
+      tier: { Critical: 1, High: 2, Moderate: 3, Low: 4 }[stressLevel],
+      score: Math.min(100, heavyMinutes * 0.8),
+      confidence: 50,
+      stressLevel,
+      estimatedHeavyUsageMinutes: heavyMinutes,
+      capacityMah: capacity.mAh,
+      capacitySource: capacity.source,
+      riskFactors: [],
+      why: 'Estimated from current battery level and capacity only',
+    };
+
+    const patternMap: Record<typeof legacyDaily.pattern, DailyUsageCapability['pattern']> = {
+      'Light': 'Light',
+      'Moderate': 'Moderate',
+      'Heavy': 'Moderate',
+      'Power User': 'Power',
+    };
+    const dailyUsage: DailyUsageCapability = {
+      tier: performance.tier,
+      score: performance.score,
+      confidence: Math.min(confidence, 60),
+      pattern: patternMap[legacyDaily.pattern],
+      screenTime: legacyDaily.screenTime,
+      idealUseCase: legacyDaily.description,
+      why: legacyDaily.description,
+    };
+
+    const capabilities = { performance, gaming, videoRecording, batteryStress, dailyUsage };
+
+    return {
+      ...capabilities,
+      featureUnlocks: calculateFeatureUnlocks(capabilities),
+      lastUpdated: new Date(),
+    };
+  }
   
   static getConfidenceScore(deviceInfo: DeviceInfo): number {
-    // Calculate confidence based on how much info we have
-    let confidence = 70; // Base confidence
-    
-    if (deviceInfo.totalMemory) confidence += 10;
-    if (deviceInfo.cpuCount) confidence += 10;
-    if (deviceInfo.supportedCpuArchitectures?.length) confidence += 5;
-    if (deviceInfo.refreshRate) confidence += 5;
+    // Calculate confidence based on where each input came from
+    const inputs: CapabilityInput[] = [
+      deviceInput(deviceInfo, 'totalMemory', 'RAM'),
+      deviceInput(deviceInfo, 'cpuCount', 'CPU core count'),
+      deviceInput(deviceInfo, 'supportedCpuArchitectures', 'CPU architecture', 0.25),
+      deviceInput(deviceInfo, 'refreshRate', 'refresh rate', 0.25),
+    ];
     
-    return Math.min(confidence, 95); // Cap at 95%
+    return applyInputConfidence(95, inputs); // Cap at 95%
   }
 }
\ No newline at end of file
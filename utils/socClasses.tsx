@@ -0,0 +1,72 @@
+import type { Provenance, SocClass } from '../capabilities/types';
+import { SOC_CLASS_TABLE, SocClassEntry } from '../constants/socClasses';
+import type { AndroidBuildInfo } from './buildInfo';
+
+export interface SocIdentity {
+  name: string;
+  socClass?: SocClass;           // Missing for SoCs not in the table
+  provenance: Provenance;        // 'platform' from Build info, else the spec match's provenance
+}
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Build.SOC_MANUFACTURER / HARDWARE values by the SoC name prefix they imply
+const VENDOR_PREFIXES: { pattern: RegExp; prefix: string }[] = [
+  { pattern: /qcom|qualcomm/i, prefix: 'snapdragon' },
+  { pattern: /samsung|exynos|^s5e/i, prefix: 'exynos' },
+  { pattern: /mediatek|^mt\d/i, prefix: 'dimensity|helio' },
+  { pattern: /google|^gs\d|zuma/i, prefix: 'google' },
+];
+
+/**
+ * Find the table entry for a SoC name, model code or board name
+ */
+export function lookupSocClass(name: string): SocClass | undefined {
+  const target = normalize(name);
+  if (!target) return undefined;
+
+  const entry = SOC_CLASS_TABLE.socs.find(
+    soc => normalize(soc.name) === target || soc.aliases?.some(alias => normalize(alias) === target)
+  );
+  return entry ? toSocClass(entry) : undefined;
+}
+
+/**
+ * Which SoC this device runs. Build info names the chip directly; otherwise
+ * the spec database entry, using Build's vendor hints to pick between
+ * regional variants (Exynos vs Snapdragon).
+ */
+export function resolveSocIdentity(
+  spec: { soc: string; socVariants?: string[] } | undefined,
+  build: AndroidBuildInfo | null,
+  specProvenance: Provenance = 'spec'
+): SocIdentity | undefined {
+  for (const value of [build?.socModel, build?.board, build?.hardware]) {
+    const socClass = value ? lookupSocClass(value) : undefined;
+    if (socClass) return { name: socClass.name, socClass, provenance: 'platform' };
+  }
+
+  if (!spec) return undefined;
+
+  const candidates = [spec.soc, ...(spec.socVariants ?? [])];
+  const hint = [build?.socManufacturer, build?.hardware].filter(Boolean).join(' ');
+  const vendor = hint ? VENDOR_PREFIXES.find(({ pattern }) => pattern.test(hint)) : undefined;
+  const name = vendor
+    ? candidates.find(candidate => new RegExp(`^(${vendor.prefix})`, 'i').test(candidate)) ?? spec.soc
+    : spec.soc;
+
+  return { name, socClass: lookupSocClass(name), provenance: specProvenance };
+}
+
+function toSocClass(entry: SocClassEntry): SocClass {
+  return {
+    name: entry.name,
+    cpuClass: entry.cpuClass,
+    gpuClass: entry.gpuClass,
+    processNm: entry.processNm,
+    primeCores: entry.cores.prime,
+    performanceCores: entry.cores.performance,
+    efficiencyCores: entry.cores.efficiency,
+    version: SOC_CLASS_TABLE.version,
+  };
+}
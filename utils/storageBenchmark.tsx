@@ -0,0 +1,234 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
+import type { MeasuredStorageThroughput } from '../capabilities/types';
+import {
+  BenchmarkRunOptions,
+  throwIfCancelled,
+  yieldToEventLoop,
+} from './benchmarkUtils';
+
+const STORAGE_KEY = '@phonefit_storage_benchmark';
+
+// Scratch directory inside the cache dir; removed after every run
+export const STORAGE_BENCHMARK_DIR = 'phonefit-benchmark';
+
+const KB = 1024;
+const MB = 1024 * KB;
+
+const SEQUENTIAL_SIZES = [1 * MB, 8 * MB, 32 * MB];
+const SMALL_FILE_SIZE = 4 * KB;
+const SMALL_FILE_COUNT = 100;
+const SUSTAINED_CHUNK = 4 * MB;
+const SUSTAINED_DURATION_MS = 4000;
+const MAX_SUSTAINED_BYTES = 256 * MB;
+// Never use more than this share of free space
+const MAX_FREE_SPACE_SHARE = 0.05;
+
+const toMBps = (bytes: number, ms: number) =>
+  Math.round((bytes / MB / (Math.max(1, ms) / 1000)) * 10) / 10;
+
+/**
+ * Storage Benchmark
+ * Writes and reads temporary files in the cache directory to measure
+ * sequential, small-file and sustained write throughput, then deletes them.
+ *
+ * expo-file-system has no fsync, and the writes are far smaller than the
+ * page cache, so writes land in RAM and the reads that follow are served
+ * from it. Every rate is therefore an upper bound rather than flash speed,
+ * and results are stored unsynced so they carry 'heuristic' provenance.
+ * An upper bound below a video bitrate still proves the disk too slow.
+ */
+export class StorageBenchmark {
+  private cached: MeasuredStorageThroughput | null = null;
+  private loadPromise: Promise<void> | null = null;
+
+  async run(options: BenchmarkRunOptions = {}): Promise<MeasuredStorageThroughput> {
+    const { signal, onProgress } = options;
+    const dir = new Directory(Paths.cache, STORAGE_BENCHMARK_DIR);
+
+    try {
+      if (dir.exists) dir.delete();
+      dir.create({ intermediates: true });
+
+      onProgress?.(0, 'sequential');
+      const sequential = await this.measureSequential(dir, signal);
+
+      onProgress?.(0.35, 'small files');
+      const smallFiles = await this.measureSmallFiles(dir, signal);
+
+      onProgress?.(0.55, 'sustained write');
+      const sustainedWriteMBps = await this.measureSustained(dir, signal, progress =>
+        onProgress?.(0.55 + progress * 0.45, 'sustained write')
+      ) ?? sequential.sequentialWriteMBps;
+      onProgress?.(1, 'done');
+
+      const result: MeasuredStorageThroughput = {
+        ...sequential,
+        ...smallFiles,
+        sustainedWriteMBps,
+        synced: false,
+        timestamp: Date.now(),
+      };
+
+      await this.load();
+      this.cached = result;
+      await this.save();
+      return result;
+    } finally {
+      this.cleanup(dir);
+    }
+  }
+
+  async getCached(): Promise<MeasuredStorageThroughput | undefined> {
+    await this.load();
+    return this.cached ?? undefined;
+  }
+
+  /* =======================
+     WORKLOADS
+  ======================= */
+
+  private async measureSequential(dir: Directory, signal?: AbortSignal) {
+    let writeBytes = 0;
+    let writeMs = 0;
+    let readBytes = 0;
+    let readMs = 0;
+
+    for (const size of SEQUENTIAL_SIZES) {
+      throwIfCancelled(signal);
+      const file = new File(dir, `seq-${size}.bin`);
+      const data = this.makePayload(size);
+
+      let started = Date.now();
+      file.write(data);
+      writeMs += Date.now() - started;
+      writeBytes += size;
+      await yieldToEventLoop();
+
+      throwIfCancelled(signal);
+      started = Date.now();
+      await file.bytes();
+      readMs += Date.now() - started;
+      readBytes += size;
+
+      file.delete();
+      await yieldToEventLoop();
+    }
+
+    return {
+      sequentialWriteMBps: toMBps(writeBytes, writeMs),
+      sequentialReadMBps: toMBps(readBytes, readMs),
+    };
+  }
+
+  private async measureSmallFiles(dir: Directory, signal?: AbortSignal) {
+    const data = this.makePayload(SMALL_FILE_SIZE);
+    const files = Array.from({ length: SMALL_FILE_COUNT }, (_, i) => new File(dir, `small-${i}.bin`));
+
+    let started = Date.now();
+    for (let i = 0; i < files.length; i++) {
+      if (i % 20 === 0) throwIfCancelled(signal);
+      files[i].write(data);
+    }
+    const writeMs = Date.now() - started;
+    await yieldToEventLoop();
+
+    started = Date.now();
+    for (let i = 0; i < files.length; i++) {
+      if (i % 20 === 0) throwIfCancelled(signal);
+      await files[i].bytes();
+    }
+    const readMs = Date.now() - started;
+
+    files.forEach(file => file.delete());
+
+    const totalBytes = SMALL_FILE_SIZE * SMALL_FILE_COUNT;
+    return {
+      smallFileWriteMBps: toMBps(totalBytes, writeMs),
+      smallFileReadMBps: toMBps(totalBytes, readMs),
+    };
+  }
+
+  // Streams chunks into one file; the second half reflects the rate once
+  // any fast write cache has filled up. Null when there's no room to stream.
+  private async measureSustained(
+    dir: Directory,
+    signal: AbortSignal | undefined,
+    onProgress: (progress: number) => void
+  ): Promise<number | null> {
+    const limit = Math.min(MAX_SUSTAINED_BYTES, Paths.availableDiskSpace * MAX_FREE_SPACE_SHARE);
+    const chunk = this.makePayload(SUSTAINED_CHUNK);
+    const file = new File(dir, 'sustained.bin');
+    file.create({ overwrite: true });
+
+    const handle = file.open();
+    const chunkTimes: number[] = [];
+    let written = 0;
+    let elapsed = 0;
+
+    try {
+      while (elapsed < SUSTAINED_DURATION_MS && written + SUSTAINED_CHUNK <= limit) {
+        throwIfCancelled(signal);
+        const started = Date.now();
+        handle.writeBytes(chunk);
+        const ms = Date.now() - started;
+
+        chunkTimes.push(ms);
+        written += SUSTAINED_CHUNK;
+        elapsed += ms;
+        onProgress(Math.min(1, elapsed / SUSTAINED_DURATION_MS));
+        await yieldToEventLoop();
+      }
+    } finally {
+      handle.close();
+    }
+
+    if (chunkTimes.length < 2) return null;
+    const secondHalf = chunkTimes.slice(Math.floor(chunkTimes.length / 2));
+    const secondHalfMs = secondHalf.reduce((sum, ms) => sum + ms, 0);
+    return toMBps(secondHalf.length * SUSTAINED_CHUNK, secondHalfMs);
+  }
+
+  /* =======================
+     HELPERS
+  ======================= */
+
+  // Non-uniform content so nothing can shortcut zero pages
+  private makePayload(size: number): Uint8Array {
+    const data = new Uint8Array(size);
+    for (let i = 0; i < size; i += 64) data[i] = (i * 31) & 0xff;
+    return data;
+  }
+
+  private cleanup(dir: Directory) {
+    try {
+      if (dir.exists) dir.delete();
+    } catch (e) {
+      console.warn('Failed to clean up storage benchmark files', e);
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) this.loadPromise = this.readFromStorage();
+    return this.loadPromise;
+  }
+
+  private async readFromStorage() {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      this.cached = stored ? JSON.parse(stored) : null;
+    } catch {
+      this.cached = null;
+    }
+  }
+
+  private async save() {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.cached));
+    } catch (e) {
+      console.warn('Failed to save storage benchmark', e);
+    }
+  }
+}
+
+export const storageBenchmark = new StorageBenchmark();
@@ -0,0 +1,91 @@
+import { DEFAULT_MEDIA_PROFILES, MediaProfile, MediaUnit } from '../constants/mediaProfiles';
+
+export interface StoragePlanItem {
+  profile: MediaProfile;
+  count: number;                 // Whole units that fit in the plannable space
+  description: string;           // "2h 10m of 4K 60fps", "1,240 HEIC photos (12 MP)"
+}
+
+export interface StoragePlan {
+  freeBytes: number;
+  reserveBytes: number;          // Kept free so the system can update and apps can cache
+  plannableBytes: number;
+  items: StoragePlanItem[];
+}
+
+const GB = 1024 * 1024 * 1024;
+
+// Below ~2 GB free, OS updates fail and apps start evicting caches
+const MIN_RESERVE_BYTES = 2 * GB;
+const RESERVE_SHARE = 0.05;
+
+const UNIT_NAMES: Record<MediaUnit, [string, string]> = {
+  photo: ['photo', 'photos'],
+  minute: ['minute', 'minutes'],
+  hour: ['hour', 'hours'],
+  region: ['region', 'regions'],
+  app: ['app', 'apps'],
+  game: ['game', 'games'],
+  movie: ['movie', 'movies'],
+};
+
+/**
+ * Space to keep free: 5% of the disk, at least 2 GB
+ */
+export function getSafetyReserve(totalBytes: number): number {
+  return Math.max(MIN_RESERVE_BYTES, totalBytes * RESERVE_SHARE);
+}
+
+/**
+ * How many units of a given size fit once the safety reserve is kept free
+ */
+export function countThatFits(freeBytes: number, totalBytes: number, bytesPerUnit: number): number {
+  if (bytesPerUnit <= 0) return 0;
+  const plannable = Math.max(0, freeBytes - getSafetyReserve(totalBytes));
+  return Math.floor(plannable / bytesPerUnit);
+}
+
+/**
+ * The default profiles with any user-edited sizes applied
+ */
+export function resolveMediaProfiles(sizeOverrides: Record<string, number> = {}): MediaProfile[] {
+  return DEFAULT_MEDIA_PROFILES.map(profile => {
+    const override = sizeOverrides[profile.id];
+    return override && override > 0 ? { ...profile, bytesPerUnit: override } : profile;
+  });
+}
+
+export function planStorage(
+  freeBytes: number,
+  totalBytes: number,
+  profiles: MediaProfile[] = DEFAULT_MEDIA_PROFILES
+): StoragePlan {
+  const reserveBytes = getSafetyReserve(totalBytes);
+  return {
+    freeBytes,
+    reserveBytes,
+    plannableBytes: Math.max(0, freeBytes - reserveBytes),
+    items: profiles.map(profile => {
+      const count = countThatFits(freeBytes, totalBytes, profile.bytesPerUnit);
+      return { profile, count, description: describeCount(profile, count) };
+    }),
+  };
+}
+
+export function formatUnitCount(unit: MediaUnit, count: number): string {
+  if (unit === 'minute' && count >= 60) {
+    const hours = Math.floor(count / 60);
+    const rest = count % 60;
+    return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+  }
+  const [singular, plural] = UNIT_NAMES[unit];
+  return `${count.toLocaleString()} ${count === 1 ? singular : plural}`;
+}
+
+function describeCount(profile: MediaProfile, count: number): string {
+  if (count === 0) return `No room for ${profile.label} after the reserve`;
+  if (profile.unit === 'minute' || profile.unit === 'hour') {
+    return `${formatUnitCount(profile.unit, count)} of ${profile.label}`;
+  }
+  return `${formatUnitCount(profile.unit, count)} (${profile.label})`;
+}
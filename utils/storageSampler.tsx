@@ -0,0 +1,228 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getStorageInfo, StorageInfo } from './storageutils';
+import { linearRegression } from './trendMath';
+
+const STORAGE_KEY = '@phonefit_storage_samples';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface StorageSample {
+  timestamp: number;
+  freeBytes: number;
+  totalBytes: number;
+}
+
+export interface StorageThresholdForecast {
+  freePercent: number;           // 10, 5 or 0
+  thresholdBytes: number;
+  daysUntil: number | null;      // 0 when already below; null when free space isn't shrinking
+  date: number | null;
+}
+
+export interface StorageForecast {
+  freeBytes: number;
+  totalBytes: number;
+  slopeBytesPerDay: number;      // Negative while storage fills up
+  r2: number;
+  sampleCount: number;
+  spanDays: number;
+  thresholds: StorageThresholdForecast[];
+  daysUntilFull: number | null;
+  confidence: number;            // 0-100
+}
+
+export const STORAGE_FORECAST_THRESHOLDS = [10, 5, 0];
+
+/**
+ * Storage Sampler
+ * Records free/total storage on every refresh and on a timer while the
+ * app is open, and fits a line through the samples to predict when free
+ * space runs out.
+ *
+ * Only platform readings are recorded; model-based estimates don't change
+ * over time and would flatten the trend.
+ */
+export class StorageSampler {
+  private samples: StorageSample[] = [];
+  private loadPromise: Promise<void> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  private readonly MAX_SAMPLES = 1000;
+  private readonly SAMPLE_INTERVAL = HOUR_MS;
+  // Foreground refreshes come in bursts; one sample per window is enough
+  private readonly MIN_RECORD_INTERVAL = 15 * 60 * 1000;
+  // A forecast needs this much history before it is reported; a single day
+  // is dominated by one-off downloads and cache churn
+  private readonly MIN_SAMPLES = 4;
+  private readonly MIN_SPAN_DAYS = 3;
+  // Free space shrinking slower than this is treated as flat
+  private readonly MIN_SLOPE_BYTES_PER_DAY = 10 * 1024 * 1024;
+
+  /* =======================
+     TIMER
+  ======================= */
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.recordSample(), this.SAMPLE_INTERVAL);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /* =======================
+     RECORDING
+  ======================= */
+
+  /**
+   * Record a sample from a reading, or read storage now
+   */
+  async recordSample(reading?: StorageInfo): Promise<void> {
+    try {
+      const info = reading ?? await getStorageInfo();
+      if (info.capacity.source === 'estimate' || info.totalStorage <= 0) return;
+
+      await this.load();
+      const now = Date.now();
+      const last = this.samples[this.samples.length - 1];
+      if (last && now - last.timestamp < this.MIN_RECORD_INTERVAL) return;
+
+      this.samples.push({ timestamp: now, freeBytes: info.freeStorage, totalBytes: info.totalStorage });
+      if (this.samples.length > this.MAX_SAMPLES) {
+        this.samples = this.samples.slice(-this.MAX_SAMPLES);
+      }
+      await this.save();
+    } catch (e) {
+      console.warn('Failed to record storage sample', e);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.samples = [];
+    this.loadPromise = Promise.resolve();
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  }
+
+  /* =======================
+     QUERIES
+  ======================= */
+
+  async getSamples(sinceMs?: number): Promise<StorageSample[]> {
+    await this.load();
+    if (sinceMs === undefined) return [...this.samples];
+    return this.samples.filter(s => s.timestamp >= sinceMs);
+  }
+
+  /**
+   * Regression over the window's free-space samples, projected to the
+   * 10%, 5% and 0% free marks. Null until there is enough history.
+   */
+  async getForecast(days = 30): Promise<StorageForecast | null> {
+    const now = Date.now();
+    const all = await this.getSamples(now - days * DAY_MS);
+    const latest = all[all.length - 1];
+    if (!latest) return null;
+
+    // A different disk size means a restore onto another phone; start over
+    const samples = all.filter(s => s.totalBytes === latest.totalBytes);
+    const spanDays = (latest.timestamp - samples[0].timestamp) / DAY_MS;
+    if (samples.length < this.MIN_SAMPLES || spanDays < this.MIN_SPAN_DAYS) return null;
+
+    const fit = linearRegression(samples.map(s => ({ x: s.timestamp / DAY_MS, y: s.freeBytes })));
+    if (!fit) return null;
+
+    const shrinking = fit.slope <= -this.MIN_SLOPE_BYTES_PER_DAY;
+    const thresholds = STORAGE_FORECAST_THRESHOLDS.map(freePercent => {
+      const thresholdBytes = latest.totalBytes * (freePercent / 100);
+      let daysUntil: number | null = null;
+      if (latest.freeBytes <= thresholdBytes) daysUntil = 0;
+      else if (shrinking) daysUntil = (thresholdBytes - latest.freeBytes) / fit.slope;
+
+      return {
+        freePercent,
+        thresholdBytes,
+        daysUntil: daysUntil === null ? null : Math.round(daysUntil * 10) / 10,
+        date: daysUntil === null ? null : now + daysUntil * DAY_MS,
+      };
+    });
+
+    return {
+      freeBytes: latest.freeBytes,
+      totalBytes: latest.totalBytes,
+      slopeBytesPerDay: fit.slope,
+      r2: fit.r2,
+      sampleCount: samples.length,
+      spanDays,
+      thresholds,
+      daysUntilFull: thresholds.find(t => t.freePercent === 0)?.daysUntil ?? null,
+      confidence: this.calculateConfidence(spanDays, samples.length, fit.r2),
+    };
+  }
+
+  /* =======================
+     PRUNING
+  ======================= */
+
+  /**
+   * Samples recorded before the cutoff and their stored size, for a cleanup preview
+   */
+  async measureBefore(cutoffMs: number): Promise<{ entries: number; bytes: number }> {
+    await this.load();
+    const old = this.samples.filter(s => s.timestamp < cutoffMs);
+    return { entries: old.length, bytes: old.length ? JSON.stringify(old).length : 0 };
+  }
+
+  /**
+   * Drop samples recorded before the cutoff; returns how many went
+   */
+  async pruneBefore(cutoffMs: number): Promise<number> {
+    await this.load();
+    const kept = this.samples.filter(s => s.timestamp >= cutoffMs);
+    const removed = this.samples.length - kept.length;
+    if (removed > 0) {
+      this.samples = kept;
+      await this.save();
+    }
+    return removed;
+  }
+
+  /* =======================
+     HELPERS
+  ======================= */
+
+  // A week of well-fitting samples reaches ~90; a noisy fit halves it
+  private calculateConfidence(spanDays: number, sampleCount: number, r2: number): number {
+    const history = 1 - Math.exp(-spanDays / 3);
+    const density = Math.min(1, sampleCount / 20);
+    const fitQuality = 0.5 + r2 * 0.5;
+    return Math.round(Math.min(95, (20 + history * 60 + density * 15) * fitQuality));
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) this.loadPromise = this.readFromStorage();
+    return this.loadPromise;
+  }
+
+  private async readFromStorage() {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      const parsed = stored ? JSON.parse(stored) : [];
+      this.samples = Array.isArray(parsed) ? parsed : [];
+    } catch {
+      this.samples = [];
+    }
+  }
+
+  private async save() {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.samples));
+    } catch (e) {
+      console.warn('Failed to save storage samples', e);
+    }
+  }
+}
+
+export const storageSampler = new StorageSampler();
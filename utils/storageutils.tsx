@@ -1,12 +1,42 @@
 // storageUtils.ts
 import * as Device from 'expo-device';
+import type { FieldProvenance, Provenance } from '../capabilities/types';
+import type { RuntimeSignals } from '../types';
+import { lookupDeviceSpec, specMatchProvenance } from './deviceSpecs';
+import {
+  MARKETED_CAPACITY_TIERS_GB,
+  STORAGE_ESTIMATE_RULES,
+  StorageEstimateRule,
+  TYPICAL_SYSTEM_SHARE,
+} from '../constants/storageEstimates';
+
+// Which path produced the reading: expo-file-system/legacy, the current
+// expo-file-system Paths API, or an estimate from the device model
+export type StorageSource = 'legacyApi' | 'fileSystemApi' | 'estimate';
+
+export interface StorageCapacity {
+  source: StorageSource;
+  marketedGB: number;            // Capacity on the box; 119 GB usable rounds up to 128
+  systemReserved: number;        // Bytes of the marketed capacity the system keeps back
+  estimateBasis?: string;        // What an estimate was based on
+}
 
 export interface StorageInfo {
   freeStorage: number;
   totalStorage: number;
   usedStorage: number;  // Add this
+  capacity: StorageCapacity;
+  provenance: FieldProvenance<Pick<RuntimeSignals, 'freeStorage' | 'totalStorage' | 'usedStorage'>>;
 }
 
+const DECIMAL_GB = 1000 ** 3;
+
+const PLATFORM_STORAGE: StorageInfo['provenance'] = {
+  freeStorage: 'platform',
+  totalStorage: 'platform',
+  usedStorage: 'platform',
+};
+
 export const getStorageInfo = async (): Promise<StorageInfo> => {
   let freeStorage = 0;
   let totalStorage = 0;
@@ -22,7 +52,13 @@ export const getStorageInfo = async (): Promise<StorageInfo> => {
     if (freeStorage > 0 && totalStorage > 0) {
       const usedStorage = totalStorage - freeStorage;
       logStorageValues(freeStorage, totalStorage, usedStorage);
-      return { freeStorage, totalStorage, usedStorage };
+      return {
+        freeStorage,
+        totalStorage,
+        usedStorage,
+        capacity: measuredCapacity('legacyApi', totalStorage),
+        provenance: PLATFORM_STORAGE,
+      };
     } else {
       throw new Error('Storage values are 0');
     }
@@ -31,20 +67,24 @@ export const getStorageInfo = async (): Promise<StorageInfo> => {
     console.warn('Legacy API failed, trying fallback...', legacyError);
     
     try {
-      const FileSystem = require('expo-file-system');
-      
-      if (FileSystem.getFreeDiskStorageAsync && FileSystem.getTotalDiskCapacityAsync) {
-        const freeBytes = await FileSystem.getFreeDiskStorageAsync();
-        const totalBytes = await FileSystem.getTotalDiskCapacityAsync();
-        
-        freeStorage = freeBytes;
-        totalStorage = totalBytes;
-        
-        if (freeStorage > 0 && totalStorage > 0) {
-          const usedStorage = totalStorage - freeStorage;
-          logStorageValues(freeStorage, totalStorage, usedStorage, 'Fallback API succeeded');
-          return { freeStorage, totalStorage, usedStorage };
-        }
+      // The current API reads synchronously; its async getters are stubs that throw
+      const { Paths } = require('expo-file-system');
+      const freeBytes = Paths.availableDiskSpace;
+      const totalBytes = Paths.totalDiskSpace;
+
+      freeStorage = freeBytes;
+      totalStorage = totalBytes;
+
+      if (freeStorage > 0 && totalStorage > 0) {
+        const usedStorage = totalStorage - freeStorage;
+        logStorageValues(freeStorage, totalStorage, usedStorage, 'Fallback API succeeded');
+        return {
+          freeStorage,
+          totalStorage,
+          usedStorage,
+          capacity: measuredCapacity('fileSystemApi', totalStorage),
+          provenance: PLATFORM_STORAGE,
+        };
       }
     } catch (regularError) {
       console.warn('All storage APIs failed, estimating from device model...', regularError);
@@ -67,52 +107,88 @@ const logStorageValues = (
   const freePercentage = (freeBytes / totalBytes) * 100;
 };
 
+/**
+ * Smallest marketed tier that holds the reported size. Platforms report
+ * usable space in binary units after the system's share, so a 128 GB
+ * phone shows up as ~119 GB or less.
+ */
+export const roundToMarketedCapacity = (totalBytes: number): number => {
+  const tier = MARKETED_CAPACITY_TIERS_GB.find(gb => gb * DECIMAL_GB >= totalBytes);
+  return tier ?? Math.ceil(totalBytes / DECIMAL_GB / 1000) * 1000;
+};
+
+const measuredCapacity = (source: StorageSource, totalBytes: number): StorageCapacity => {
+  const marketedGB = roundToMarketedCapacity(totalBytes);
+  return {
+    source,
+    marketedGB,
+    systemReserved: Math.max(0, marketedGB * DECIMAL_GB - totalBytes),
+  };
+};
+
+const MODEL_CAPACITY_PATTERN = /(\d+)\s*(GB|TB)\b/i;
+
+const matchesEstimateRule = (
+  rule: StorageEstimateRule,
+  brand: string,
+  yearClass: number | null
+): boolean => {
+  if (rule.brand && !rule.brand.test(brand)) return false;
+  if (rule.minYearClass !== undefined && (yearClass === null || yearClass < rule.minYearClass)) return false;
+  return true;
+};
+
 const estimateStorageFromDevice = (): StorageInfo => {
   const model = Device.modelName || '';
-  const brand = Device.brand || '';
-  
-  // Default values
-  let totalGB = 64;
-  let freePercentage = 0.6; // 60% free
-  
-  // Check for storage size in model name
-  const storagePatterns = [
-    { pattern: /1\s*TB|1000\s*GB|1024\s*GB/i, size: 1000 },
-    { pattern: /512\s*GB/i, size: 512 },
-    { pattern: /256\s*GB/i, size: 256 },
-    { pattern: /128\s*GB/i, size: 128 },
-    { pattern: /64\s*GB/i, size: 64 },
-    { pattern: /32\s*GB/i, size: 32 },
-    { pattern: /16\s*GB/i, size: 16 },
-    { pattern: /8\s*GB/i, size: 8 }
-  ];
-  
-  for (const pattern of storagePatterns) {
-    if (pattern.pattern.test(model)) {
-      totalGB = pattern.size;
-      break;
-    }
-  }
-  
-  // Adjust based on brand/model heuristics
-  if (brand.toLowerCase().includes('samsung') && totalGB === 64) {
-    totalGB = 128; // Samsung often has 128GB base models
-  } else if (brand.toLowerCase().includes('iphone') && totalGB === 64) {
-    // Newer iPhones usually start at 128GB
-    if (model.includes('13') || model.includes('14') || model.includes('15')) {
-      totalGB = 128;
-    }
+  const brand = `${Device.brand || ''} ${Device.manufacturer || ''}`;
+
+  const rules = STORAGE_ESTIMATE_RULES.rules;
+  const rule = rules.find(r => matchesEstimateRule(r, brand, Device.deviceYearClass))
+    ?? rules[rules.length - 1];
+
+  // Capacity: named in the model ("Galaxy A15 128GB"), then the spec
+  // database's base variant, then the rules table
+  let marketedGB = rule.capacityGB;
+  let estimateBasis = rule.description;
+  let totalProvenance: Provenance = 'heuristic';
+
+  const named = model.match(MODEL_CAPACITY_PATTERN);
+  const specMatch = lookupDeviceSpec(Device.brand || '', model);
+  if (named) {
+    const size = parseInt(named[1], 10) * (named[2].toUpperCase() === 'TB' ? 1000 : 1);
+    // Names use marketed sizes already; snap "1024GB" to the 1 TB tier rather than rounding up
+    marketedGB = MARKETED_CAPACITY_TIERS_GB.reduce((best, gb) =>
+      Math.abs(gb - size) < Math.abs(best - size) ? gb : best
+    );
+    estimateBasis = 'the capacity in the model name';
+  } else if (specMatch) {
+    marketedGB = specMatch.spec.storageGB[0];
+    estimateBasis = 'the base variant in the device database';
+    totalProvenance = specMatchProvenance(specMatch);
   }
-  
-  // Adjust free percentage based on device age estimation
-  const isOldDevice = model.includes('X') || model.includes('8') || model.includes('9') || model.includes('10');
-  freePercentage = isOldDevice ? 0.3 : 0.6; // Older devices have less free space
-  
-  const totalStorage = totalGB * 1024 * 1024 * 1024;
-  const freeStorage = totalStorage * freePercentage;
+
+  const systemReserved = marketedGB * DECIMAL_GB * TYPICAL_SYSTEM_SHARE;
+  const totalStorage = marketedGB * DECIMAL_GB - systemReserved;
+  // How full a phone is can't be looked up; the rules table has a typical share
+  const freeStorage = totalStorage * rule.freeShare;
   const usedStorage = totalStorage - freeStorage;
-  
-  return { freeStorage, totalStorage, usedStorage };
+
+  return {
+    freeStorage,
+    totalStorage,
+    usedStorage,
+    capacity: {
+      source: 'estimate',
+      marketedGB,
+      systemReserved,
+      estimateBasis,
+    },
+    provenance: {
+      freeStorage: 'heuristic',
+      totalStorage: totalProvenance,
+      usedStorage: 'heuristic',
+    },
+  };
 };
 
 // For testing
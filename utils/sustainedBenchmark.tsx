@@ -0,0 +1,222 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Battery from 'expo-battery';
+import type { SustainedPerformance, ThrottlingPoint } from '../capabilities/types';
+import {
+  BenchmarkRunOptions,
+  getAppVersion,
+  throwIfCancelled,
+  yieldToEventLoop,
+} from './benchmarkUtils';
+import { cpuBenchmark } from './cpuBenchmark';
+
+const STORAGE_KEY = '@phonefit_sustained_benchmark';
+
+const DEFAULT_DURATION_MS = 3 * 60 * 1000;
+// Per-workload budget of each pass; long enough that timer jitter doesn't
+// dominate a pass, short enough that the curve still has points to average
+const PASS_BUDGET_MS = 250;
+// Peak is the median of the opening passes, before the SoC warms up; the
+// best single pass would overstate it and read as throttling later
+const PEAK_PASSES = 5;
+// Sustained score is the average over this final share of the run
+const SUSTAINED_SHARE = 0.2;
+const CURVE_POINTS = 12;
+const THROTTLED_BELOW = 0.9;
+const HOUR_MS = 60 * 60 * 1000;
+
+interface PassSample {
+  elapsedMs: number;
+  score: number;
+}
+
+interface BatterySample {
+  elapsedMs: number;
+  level: number;                 // 0-1
+  charging: boolean;
+}
+
+/**
+ * Sustained Performance Test
+ * Runs the CPU workloads back to back for a few minutes and tracks how
+ * throughput decays as the device heats up. The ratio between the final
+ * stretch and the opening peak replaces size-based thermal guesses.
+ * Battery is read at every curve point so drain can be fitted across the
+ * run; 1% steps make a start/end difference useless over a few minutes.
+ * A run where the charger is plugged or unplugged is dropped, since
+ * charging heats the device as well as skewing drain.
+ */
+export class SustainedBenchmark {
+  private cached: SustainedPerformance | null = null;
+  private loadPromise: Promise<void> | null = null;
+
+  async run(
+    options: BenchmarkRunOptions & { durationMs?: number } = {}
+  ): Promise<SustainedPerformance> {
+    const { signal, onProgress, durationMs = DEFAULT_DURATION_MS } = options;
+    const bucketMs = durationMs / CURVE_POINTS;
+    const battery: BatterySample[] = [];
+    const sampleBattery = async (elapsedMs: number) => {
+      const reading = await this.readBattery();
+      if (!reading) return;
+      if (battery.length > 0 && reading.charging !== battery[0].charging) {
+        throw new Error('Charger was plugged or unplugged during the sustained test');
+      }
+      battery.push({ elapsedMs, ...reading });
+    };
+
+    const started = Date.now();
+    const passes: PassSample[] = [];
+    await sampleBattery(0);
+    let nextBatteryMs = bucketMs;
+
+    while (Date.now() - started < durationMs) {
+      throwIfCancelled(signal);
+      const { score } = await cpuBenchmark.runPass(PASS_BUDGET_MS, { signal });
+      const elapsedMs = Date.now() - started;
+      passes.push({ elapsedMs, score });
+      if (elapsedMs >= nextBatteryMs) {
+        await sampleBattery(elapsedMs);
+        nextBatteryMs += bucketMs;
+      }
+      onProgress?.(Math.min(1, elapsedMs / durationMs), 'sustained load');
+      await yieldToEventLoop();
+    }
+
+    const totalMs = Date.now() - started;
+    await sampleBattery(totalMs);
+    onProgress?.(1, 'done');
+
+    const result = this.analyze(passes, battery, totalMs);
+    result.batteryDrainPercentPerHour = this.drainPerHour(battery);
+
+    await this.load();
+    this.cached = result;
+    await this.save();
+    return result;
+  }
+
+  /**
+   * Last result for this app version, if any
+   */
+  async getCached(): Promise<SustainedPerformance | undefined> {
+    await this.load();
+    if (!this.cached || this.cached.appVersion !== getAppVersion()) return undefined;
+    return this.cached;
+  }
+
+  /* =======================
+     HELPERS
+  ======================= */
+
+  private analyze(passes: PassSample[], battery: BatterySample[], durationMs: number): SustainedPerformance {
+    if (passes.length < PEAK_PASSES * 2) {
+      throw new Error(`Only ${passes.length} passes completed during the sustained test`);
+    }
+
+    const opening = passes.slice(0, PEAK_PASSES).map(p => p.score).sort((a, b) => a - b);
+    const peakScore = opening[Math.floor(opening.length / 2)];
+    const tailCount = Math.max(PEAK_PASSES, Math.round(passes.length * SUSTAINED_SHARE));
+    const tail = passes.slice(-tailCount);
+    const sustainedScore = Math.round(tail.reduce((sum, p) => sum + p.score, 0) / tail.length);
+    const curve = this.buildCurve(passes, battery, peakScore, durationMs);
+
+    // Throttled from the first point after which throughput never recovers
+    let throttleAfterMs: number | undefined;
+    for (let i = curve.length - 1; i >= 0 && curve[i].relativeScore < THROTTLED_BELOW; i--) {
+      throttleAfterMs = curve[i].elapsedMs;
+    }
+
+    return {
+      ratio: Math.round(Math.min(1, sustainedScore / Math.max(1, peakScore)) * 100) / 100,
+      peakScore,
+      sustainedScore,
+      curve,
+      throttleAfterMs,
+      durationMs,
+      timestamp: Date.now(),
+      appVersion: getAppVersion(),
+    };
+  }
+
+  // Averages passes into evenly spaced buckets so the stored curve stays small
+  private buildCurve(
+    passes: PassSample[],
+    battery: BatterySample[],
+    peakScore: number,
+    durationMs: number
+  ): ThrottlingPoint[] {
+    const bucketMs = durationMs / CURVE_POINTS;
+    const curve: ThrottlingPoint[] = [];
+
+    for (let i = 0; i < CURVE_POINTS; i++) {
+      const bucket = passes.filter(p => p.elapsedMs > i * bucketMs && p.elapsedMs <= (i + 1) * bucketMs);
+      if (bucket.length === 0) continue;
+      const average = bucket.reduce((sum, p) => sum + p.score, 0) / bucket.length;
+      const reading = battery.filter(b => b.elapsedMs <= (i + 1) * bucketMs).pop();
+      curve.push({
+        elapsedMs: Math.round((i + 1) * bucketMs),
+        relativeScore: Math.round(Math.min(1, average / Math.max(1, peakScore)) * 100) / 100,
+        ...(reading && { batteryLevel: reading.level }),
+      });
+    }
+
+    return curve;
+  }
+
+  private async readBattery(): Promise<{ level: number; charging: boolean } | null> {
+    try {
+      const [level, state] = await Promise.all([
+        Battery.getBatteryLevelAsync(),
+        Battery.getBatteryStateAsync(),
+      ]);
+      if (level < 0) return null;
+      const charging = state === Battery.BatteryState.CHARGING || state === Battery.BatteryState.FULL;
+      return { level, charging };
+    } catch {
+      return null;
+    }
+  }
+
+  // Least-squares slope over every reading, so 1% steps still resolve below
+  // 1% per run; undefined when charging or too few readings
+  private drainPerHour(battery: BatterySample[]): number | undefined {
+    if (battery.length < 3 || battery[0].charging) return undefined;
+
+    const meanMs = battery.reduce((sum, b) => sum + b.elapsedMs, 0) / battery.length;
+    const meanLevel = battery.reduce((sum, b) => sum + b.level, 0) / battery.length;
+    let covariance = 0;
+    let variance = 0;
+    for (const b of battery) {
+      covariance += (b.elapsedMs - meanMs) * (b.level - meanLevel);
+      variance += (b.elapsedMs - meanMs) ** 2;
+    }
+    if (variance === 0) return undefined;
+
+    const drainedPercentPerMs = Math.max(0, -covariance / variance) * 100;
+    return Math.round(drainedPercentPerMs * HOUR_MS * 10) / 10;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) this.loadPromise = this.readFromStorage();
+    return this.loadPromise;
+  }
+
+  private async readFromStorage() {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      this.cached = stored ? JSON.parse(stored) : null;
+    } catch {
+      this.cached = null;
+    }
+  }
+
+  private async save() {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.cached));
+    } catch (e) {
+      console.warn('Failed to save sustained benchmark', e);
+    }
+  }
+}
+
+export const sustainedBenchmark = new SustainedBenchmark();
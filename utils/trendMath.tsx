@@ -0,0 +1,39 @@
+export interface TrendPoint {
+  x: number;
+  y: number;
+}
+
+export interface LinearFit {
+  slope: number;
+  intercept: number;
+  r2: number;        // 0-1, how well the line explains the points
+}
+
+/**
+ * Ordinary least squares fit of y = slope * x + intercept
+ * Returns null when there are fewer than two distinct x values
+ */
+export function linearRegression(points: TrendPoint[]): LinearFit | null {
+  const n = points.length;
+  if (n < 2) return null;
+
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / n;
+
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (const p of points) {
+    sxx += (p.x - meanX) ** 2;
+    sxy += (p.x - meanX) * (p.y - meanY);
+    syy += (p.y - meanY) ** 2;
+  }
+
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  const r2 = syy === 0 ? 1 : (sxy * sxy) / (sxx * syy);
+
+  return { slope, intercept, r2 };
+}
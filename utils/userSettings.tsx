@@ -0,0 +1,57 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const STORAGE_KEY = '@phonefit_user_settings';
+
+export interface UserSettings {
+  batteryCapacityMah?: number;   // Overrides the looked-up/inferred capacity
+  mediaProfileSizes?: Record<string, number>; // Storage planner bytes per unit, by media profile id
+}
+
+/**
+ * User Settings
+ * Small persisted bag of user overrides
+ */
+export class UserSettingsStore {
+  private settings: UserSettings = {};
+  private loadPromise: Promise<void> | null = null;
+
+  async get(): Promise<UserSettings> {
+    await this.load();
+    return { ...this.settings };
+  }
+
+  /**
+   * Merge a patch; undefined values clear the setting
+   */
+  async update(patch: Partial<UserSettings>): Promise<UserSettings> {
+    await this.load();
+    this.settings = { ...this.settings, ...patch };
+    await this.save();
+    return { ...this.settings };
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) this.loadPromise = this.readFromStorage();
+    return this.loadPromise;
+  }
+
+  private async readFromStorage() {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      const parsed = stored ? JSON.parse(stored) : {};
+      this.settings = parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+      this.settings = {};
+    }
+  }
+
+  private async save() {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+    } catch (e) {
+      console.warn('Failed to save user settings', e);
+    }
+  }
+}
+
+export const userSettings = new UserSettingsStore();